@@ -0,0 +1,10 @@
+import { parentPort } from 'worker_threads'
+
+if (parentPort) {
+  parentPort.on('message', (e) => {
+    console.log('[CRASH-WORKER] onmessage e:', e)
+
+    // Crash while handling the message
+    throw new Error('Mock Worker Crash')
+  })
+}
@@ -0,0 +1,29 @@
+import { parentPort, workerData } from 'worker_threads'
+
+if (parentPort) {
+  parentPort.on('message', (e) => {
+    console.log('[ERROR-WORKER] onmessage e:', e)
+
+    let request = e
+
+    // Create the error response directly as it would arrive after structured cloning
+    let response = {
+      id: 'worker-uuid',
+      name: request.name,
+      type: 'error',
+      broadcast: false,
+      source: `${workerData.name}`,
+      destination: request.source,
+      data: {
+        name: 'TypeError',
+        message: 'Mock Error Message',
+        stack: 'TypeError: Mock Error Message\n    at error-worker.js',
+        code: 'E_MOCK',
+      },
+      requestId: request.id,
+    }
+
+    // Send the error back
+    parentPort.postMessage(response)
+  })
+}
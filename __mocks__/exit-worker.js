@@ -0,0 +1,2 @@
+// Exits before announcing that it is ready
+process.exit(1)
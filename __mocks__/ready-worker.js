@@ -0,0 +1,25 @@
+import { parentPort, workerData } from 'worker_threads'
+
+if (parentPort) {
+  // Announce readiness like a MessagingService does when its upstream is set
+  parentPort.postMessage({
+    id: 'ready-uuid',
+    name: 'ready',
+    type: 'ready',
+    source: `${workerData.name}`,
+    destination: '/',
+    data: workerData,
+  })
+
+  parentPort.on('message', (e) => {
+    console.log('[READY-WORKER] onmessage e:', e)
+    let message = e
+
+    // Echo the message back
+    message.name = 'worker-changed-' + message.name
+    message.destination = message.source
+    message.source = `${workerData.name}`
+
+    parentPort.postMessage(message)
+  })
+}
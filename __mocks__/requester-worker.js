@@ -0,0 +1,29 @@
+import { parentPort, workerData } from 'worker_threads'
+
+if (parentPort) {
+  parentPort.on('message', (e) => {
+    console.log('[REQUESTER-WORKER] onmessage e:', e)
+
+    // Report the reply to the request back to the root
+    parentPort.postMessage({
+      id: 'worker-result-uuid',
+      name: 'requester-worker-result',
+      type: 'general',
+      broadcast: false,
+      source: `${workerData.name}`,
+      destination: '/',
+      data: e,
+    })
+  })
+
+  // Send the request to the root as soon as the worker starts
+  parentPort.postMessage({
+    id: 'worker-request-uuid',
+    name: workerData.requestName,
+    type: 'request',
+    broadcast: false,
+    source: `${workerData.name}`,
+    destination: '/',
+    data: workerData.requestData,
+  })
+}
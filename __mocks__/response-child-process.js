@@ -0,0 +1,21 @@
+if (process.send) {
+  process.on('message', (e) => {
+    console.log('[RESPONSE-CHILD-PROCESS] onmessage e:', e)
+
+    let request = e
+
+    // Create the response directly, as it would arrive after IPC serialization
+    let response = {
+      id: 'child-process-uuid',
+      name: 'concrete-response-message-mock',
+      type: 'response',
+      broadcast: false,
+      source: `${process.env.MESSAGEWORKS_MESSENGER}`,
+      destination: request.source,
+      requestId: request.id,
+    }
+
+    // Send the response back and let the process exit
+    process.send(response, () => process.disconnect())
+  })
+}
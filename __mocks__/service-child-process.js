@@ -0,0 +1,29 @@
+import { createRequire } from 'module'
+import { readFileSync } from 'fs'
+
+const require = createRequire(import.meta.url)
+const ts = require('typescript')
+
+// Load the TypeScript sources of the service, transpiling them the way ts-jest does for the tests
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(readFileSync(filename, 'utf8'), {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+      esModuleInterop: true,
+    },
+  })
+  module._compile(outputText, filename)
+}
+
+const { MessagingService } = require('../src/services')
+
+// Uses MESSAGEWORKS_MESSENGER for the messenger and the IPC channel as the upstream
+const messagingService = await MessagingService.getInstance()
+
+messagingService.handle('greet', (name) => {
+  return `Hello, ${name}, from ${process.env.MESSAGEWORKS_MESSENGER}!`
+})
+
+// Let the process exit once the parent disconnects
+process.once('disconnect', () => messagingService.cleanUp())
@@ -0,0 +1,9 @@
+import { parentPort } from 'worker_threads'
+
+if (parentPort) {
+  parentPort.on('message', (e) => {
+    console.log('[SILENT-WORKER] onmessage e:', e)
+
+    // Never respond, leaving any request pending
+  })
+}
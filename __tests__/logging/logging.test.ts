@@ -0,0 +1,152 @@
+import { MessageChannel } from 'worker_threads'
+import { RequestMessage } from '../../src/models/request-message'
+import { MessagingService } from '../../src/services'
+import { ConsoleLogger, JsonLogger } from '../../src/logging'
+import { Logger } from '../../src/types/logger'
+
+function createRecordingLogger() {
+  const entries: { level: string; message: string; fields?: Record<string, any> }[] = []
+  const logger: Logger = {
+    debug: (message, fields) => entries.push({ level: 'debug', message, fields }),
+    info: (message, fields) => entries.push({ level: 'info', message, fields }),
+    warn: (message, fields) => entries.push({ level: 'warn', message, fields }),
+    error: (message, fields) => entries.push({ level: 'error', message, fields }),
+  }
+  return { logger, entries }
+}
+
+describe('ConsoleLogger', () => {
+  it('should log entries at or above its level with the messenger as a prefix', () => {
+    const fakeConsole = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+    const logger = new ConsoleLogger({ level: 'info', console: fakeConsole })
+
+    logger.debug('Sending message upstream.', { messenger: '/worker' })
+    logger.info('Added worker.', { messenger: '/', worker: '/worker' })
+    logger.error('Unknown worker environment.')
+
+    expect(logger.isLevelEnabled('debug')).toBe(false)
+    expect(logger.isLevelEnabled('warn')).toBe(true)
+    expect(fakeConsole.debug).not.toHaveBeenCalled()
+    expect(fakeConsole.info).toHaveBeenCalledWith('[/] Added worker.', { worker: '/worker' })
+    expect(fakeConsole.error).toHaveBeenCalledWith('Unknown worker environment.')
+  })
+})
+
+describe('JsonLogger', () => {
+  it('should write pino-compatible JSON lines with serialized errors', () => {
+    const lines: string[] = []
+    const logger = new JsonLogger({
+      level: 'debug',
+      write: (line) => lines.push(line),
+      fields: { pid: 42 },
+    })
+
+    logger.debug('Calling handler.', { messenger: '/worker', name: 'greet' })
+    logger.error('Handler failed.', { error: new RangeError('Out of range') })
+
+    const [debug, error] = lines.map((line) => JSON.parse(line))
+    expect(debug).toEqual({
+      level: 20,
+      time: expect.any(Number),
+      msg: 'Calling handler.',
+      pid: 42,
+      messenger: '/worker',
+      name: 'greet',
+    })
+    expect(error).toMatchObject({
+      level: 50,
+      msg: 'Handler failed.',
+      error: { name: 'RangeError', message: 'Out of range' },
+    })
+  })
+
+  it('should still log entries whose fields cannot be serialized', () => {
+    const lines: string[] = []
+    const logger = new JsonLogger({ write: (line) => lines.push(line) })
+
+    const circular: Record<string, any> = {}
+    circular.self = circular
+    logger.warn('Circular data.', { data: circular })
+
+    expect(JSON.parse(lines[0])).toMatchObject({
+      level: 40,
+      msg: 'Circular data.',
+      logError: expect.stringContaining('Unable to serialize fields'),
+    })
+  })
+})
+
+describe('MessagingService logging', () => {
+  it('should be silent by default', async () => {
+    const log = jest.spyOn(console, 'log')
+    const { port1, port2 } = new MessageChannel()
+
+    const root = MessagingService.create({ messenger: '/' })
+    const child = MessagingService.create({ messenger: '/child', upstream: port2 })
+    root.addWorker('child', port1)
+    child.handle('greet', (name: string | undefined) => `Hello, ${name}!`)
+
+    await root.sendMessage(new RequestMessage('greet', '/child', 'root'))
+    expect(log).not.toHaveBeenCalled()
+
+    log.mockRestore()
+    root.cleanUp()
+    child.cleanUp()
+    port1.close()
+  })
+
+  it('should log structured entries with the messenger to its logger', async () => {
+    const { logger, entries } = createRecordingLogger()
+    const { port1, port2 } = new MessageChannel()
+
+    const root = MessagingService.create({ messenger: '/', logger })
+    const child = MessagingService.create({ messenger: '/child', upstream: port2 })
+    root.addWorker('child', port1)
+    child.handle('fail', () => {
+      throw new Error('Failed')
+    })
+    child.logger = logger
+
+    await expect(root.sendMessage(new RequestMessage('fail', '/child'))).rejects.toThrow()
+
+    expect(entries).toEqual(
+      expect.arrayContaining([
+        { level: 'info', message: 'Added worker.', fields: { messenger: '/', worker: '/child' } },
+        {
+          level: 'debug',
+          message: 'Sending message directly to worker.',
+          fields: { messenger: '/', worker: '/child' },
+        },
+        {
+          level: 'error',
+          message: 'Handler failed.',
+          fields: { messenger: '/child', name: 'fail', error: expect.any(Error) },
+        },
+      ])
+    )
+
+    root.cleanUp()
+    child.cleanUp()
+    port1.close()
+  })
+
+  it('should skip entries below the level of its logger', async () => {
+    const { logger, entries } = createRecordingLogger()
+    logger.isLevelEnabled = (level) => level !== 'debug'
+    const { port1, port2 } = new MessageChannel()
+
+    const root = MessagingService.create({ messenger: '/', logger })
+    const child = MessagingService.create({ messenger: '/child', upstream: port2 })
+    root.addWorker('child', port1)
+    child.handle('greet', (name: string | undefined) => `Hello, ${name}!`)
+
+    await root.sendMessage(new RequestMessage('greet', '/child', 'root'))
+
+    expect(entries.length).toBeGreaterThan(0)
+    expect(entries.filter((entry) => entry.level === 'debug')).toEqual([])
+
+    root.cleanUp()
+    child.cleanUp()
+    port1.close()
+  })
+})
@@ -0,0 +1,155 @@
+import { MessageChannel } from 'worker_threads'
+import { GeneralMessage } from '../../src/models/general-message'
+import { RequestMessage } from '../../src/models/request-message'
+import { MessagingService } from '../../src/services'
+import { MessageMetrics, formatPrometheusMetrics } from '../../src/metrics'
+
+describe('MessageMetrics', () => {
+  it('should count messages and record request latencies in cumulative buckets', () => {
+    const metrics = new MessageMetrics([100, 10])
+
+    metrics.count('sent', 'greet', '/worker')
+    metrics.count('sent', 'greet', '/worker')
+    metrics.count('dropped', 'greet', '/other')
+    metrics.observeRequest('greet', '/worker', 5, false)
+    metrics.observeRequest('greet', '/worker', 50, true)
+    metrics.observeRequest('greet', '/worker', 500, false)
+
+    expect(metrics.getCounters()).toEqual([
+      { name: 'greet', destination: '/worker', sent: 2, received: 0, forwarded: 0, dropped: 0 },
+      { name: 'greet', destination: '/other', sent: 0, received: 0, forwarded: 0, dropped: 1 },
+    ])
+    expect(metrics.getHistograms()).toEqual([
+      {
+        name: 'greet',
+        destination: '/worker',
+        buckets: [
+          { le: 10, count: 1 },
+          { le: 100, count: 2 },
+        ],
+        count: 3,
+        sum: 555,
+        failures: 1,
+      },
+    ])
+
+    metrics.reset()
+    expect(metrics.getCounters()).toEqual([])
+  })
+})
+
+describe('formatPrometheusMetrics', () => {
+  it('should format a snapshot in the Prometheus text format', () => {
+    const text = formatPrometheusMetrics({
+      messenger: '/',
+      messages: [
+        {
+          name: 'say "hi"',
+          destination: '/worker',
+          sent: 1,
+          received: 0,
+          forwarded: 0,
+          dropped: 0,
+        },
+      ],
+      requests: [
+        {
+          name: 'greet',
+          destination: '/worker',
+          buckets: [{ le: 10, count: 1 }],
+          count: 2,
+          sum: 30,
+          failures: 1,
+        },
+      ],
+      pendingRequests: 3,
+      workers: [{ worker: '/worker', queueDepth: 4 }],
+    })
+
+    expect(text).toContain('# TYPE messageworks_messages_total counter\n')
+    expect(text).toContain(
+      'messageworks_messages_total{messenger="/",name="say \\"hi\\"",destination="/worker",outcome="sent"} 1\n'
+    )
+    expect(text).toContain('# TYPE messageworks_request_duration_seconds histogram\n')
+    expect(text).toContain(
+      'messageworks_request_duration_seconds_bucket{messenger="/",name="greet",destination="/worker",le="0.01"} 1\n' +
+        'messageworks_request_duration_seconds_bucket{messenger="/",name="greet",destination="/worker",le="+Inf"} 2\n' +
+        'messageworks_request_duration_seconds_sum{messenger="/",name="greet",destination="/worker"} 0.03\n' +
+        'messageworks_request_duration_seconds_count{messenger="/",name="greet",destination="/worker"} 2\n'
+    )
+    expect(text).toContain(
+      'messageworks_request_failures_total{messenger="/",name="greet",destination="/worker"} 1\n'
+    )
+    expect(text).toContain('messageworks_pending_requests{messenger="/"} 3\n')
+    expect(text).toContain('messageworks_worker_queue_depth{messenger="/",worker="/worker"} 4\n')
+  })
+})
+
+describe('MessagingService metrics', () => {
+  it('should count sent, forwarded, received and dropped messages and time requests', async () => {
+    const rootChannel = new MessageChannel()
+    const middleChannel = new MessageChannel()
+
+    const root = MessagingService.create({ messenger: '/' })
+    const middle = MessagingService.create({ messenger: '/middle', upstream: rootChannel.port2 })
+    const leaf = MessagingService.create({
+      messenger: '/middle/leaf',
+      upstream: middleChannel.port2,
+    })
+    root.addWorker('middle', rootChannel.port1)
+    middle.addWorker('leaf', middleChannel.port1)
+
+    leaf.handle('greet', (name: string | undefined) => `Hello, ${name}!`)
+
+    await root.sendMessage(new RequestMessage('greet', '/middle/leaf', 'root'))
+    await root.sendMessage(new GeneralMessage('note', '/elsewhere'))
+    await middle.sendMessage(new GeneralMessage('note', '/middle/missing'))
+
+    expect(root.getMetrics()).toMatchObject({
+      messenger: '/',
+      messages: [
+        { name: 'greet', destination: '/middle/leaf', sent: 1, dropped: 0 },
+        { name: 'greet', destination: '/', received: 1 },
+        { name: 'note', destination: '/elsewhere', sent: 0, dropped: 1 },
+      ],
+      requests: [{ name: 'greet', destination: '/middle/leaf', count: 1, failures: 0 }],
+      pendingRequests: 0,
+      workers: [{ worker: '/middle', queueDepth: 0 }],
+    })
+    expect(middle.getMetrics().messages).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ name: 'greet', destination: '/middle/leaf', forwarded: 1 }),
+        expect.objectContaining({ name: 'greet', destination: '/', forwarded: 1 }),
+        expect.objectContaining({ name: 'note', destination: '/middle/missing', dropped: 1 }),
+      ])
+    )
+    expect(leaf.getMetrics().messages).toEqual([
+      expect.objectContaining({ name: 'greet', destination: '/middle/leaf', received: 1 }),
+      expect.objectContaining({ name: 'greet', destination: '/', sent: 1 }),
+    ])
+
+    root.cleanUp()
+    middle.cleanUp()
+    leaf.cleanUp()
+    rootChannel.port1.close()
+    middleChannel.port1.close()
+  })
+
+  it('should report pending requests and the queue depth of workers that are not ready', async () => {
+    const { port1 } = new MessageChannel()
+    const root = MessagingService.create({ messenger: '/' })
+    root.addWorker('child', port1, { waitForReady: true })
+
+    const pending = root.sendMessage(new RequestMessage('greet', '/child', 'root'))
+
+    expect(root.getMetrics()).toMatchObject({
+      pendingRequests: 1,
+      workers: [{ worker: '/child', queueDepth: 1 }],
+    })
+
+    root.cleanUp()
+    await expect(pending).rejects.toThrow()
+    expect(root.getMetrics().requests).toMatchObject([{ name: 'greet', count: 1, failures: 1 }])
+    port1.close()
+  })
+})
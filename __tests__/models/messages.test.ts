@@ -1,6 +1,11 @@
 import { GeneralMessage } from '../../src/models/general-message'
 import { RequestMessage } from '../../src/models/request-message'
 import { ResponseMessage } from '../../src/models/response-message'
+import { ErrorResponseMessage } from '../../src/models/error-response-message'
+import { StreamChunkMessage } from '../../src/models/stream-chunk-message'
+import { StreamEndMessage } from '../../src/models/stream-end-message'
+import { CancelMessage } from '../../src/models/cancel-message'
+import { ProgressMessage } from '../../src/models/progress-message'
 import { MessageType } from '../../src/types/message-type'
 import { Messenger } from '../../src/types/messenger'
 
@@ -108,6 +113,102 @@ describe('GeneralMessage, RequestMessage, and ResponseMessage with Extensions',
     })
   })
 
+  // Test standard metadata fields
+  describe('Standard metadata', () => {
+    it('should correlate responses with the request and address them to replyTo', () => {
+      const requestMessage = new ConcreteRequestMessage('RequestMessage', ['destination'])
+      requestMessage.id = 'request-id'
+      requestMessage.source = ['system', 'source']
+      requestMessage.headers = { tenant: 'acme' }
+
+      const response = new ConcreteResponseMessage('ResponseMessage', requestMessage)
+      expect(response.correlationId).toBe('request-id')
+      expect(response.destination).toEqual(['system', 'source'])
+      expect(response.headers).toEqual({})
+
+      requestMessage.correlationId = 'workflow-id'
+      requestMessage.replyTo = ['system', 'collector']
+
+      const redirected = new ConcreteResponseMessage('ResponseMessage', requestMessage)
+      expect(redirected.correlationId).toBe('workflow-id')
+      expect(redirected.destination).toEqual(['system', 'collector'])
+    })
+  })
+
+  // Test ErrorResponseMessage functionality
+  describe('ErrorResponseMessage', () => {
+    it('should serialize the error and correlate it with the request', () => {
+      const requestMessage = new ConcreteRequestMessage('RequestMessage', ['destination'])
+      requestMessage.id = 'request-id'
+      requestMessage.source = ['system', 'source']
+
+      const error = Object.assign(new RangeError('Out of range'), { code: 'E_RANGE' })
+      const errorResponse = new ErrorResponseMessage(requestMessage, error)
+
+      expect(errorResponse.type).toBe(MessageType.ERROR)
+      expect(errorResponse.name).toBe('RequestMessage')
+      expect(errorResponse.requestId).toBe('request-id')
+      expect(errorResponse.destination).toEqual(['system', 'source'])
+      expect(errorResponse.data).toEqual({
+        name: 'RangeError',
+        message: 'Out of range',
+        stack: error.stack,
+        code: 'E_RANGE',
+      })
+      expect(structuredClone(errorResponse.data)).toEqual(errorResponse.data)
+    })
+
+    it('should serialize thrown values that are not errors', () => {
+      const requestMessage = new ConcreteRequestMessage('RequestMessage', ['destination'])
+      const errorResponse = new ErrorResponseMessage(requestMessage, 'Something failed')
+
+      expect(errorResponse.data).toEqual({ name: 'Error', message: 'Something failed' })
+    })
+  })
+
+  describe('Stream and progress messages', () => {
+    it('should correlate chunks, the end and cancellation with the request', () => {
+      const requestMessage = new ConcreteRequestMessage('RequestMessage', ['worker'])
+      requestMessage.id = 'request-id'
+      requestMessage.source = ['system', 'source']
+
+      const chunk = new StreamChunkMessage(requestMessage, 'first', 0)
+      const end = new StreamEndMessage(requestMessage, 1)
+      const cancel = new CancelMessage(requestMessage)
+
+      expect(chunk).toBeInstanceOf(ResponseMessage)
+      expect(chunk).toMatchObject({
+        type: MessageType.STREAM_CHUNK,
+        requestId: 'request-id',
+        destination: ['system', 'source'],
+        data: 'first',
+        sequence: 0,
+      })
+      expect(end).toMatchObject({ type: MessageType.STREAM_END, requestId: 'request-id', data: 1 })
+      expect(cancel).toMatchObject({
+        type: MessageType.CANCEL,
+        name: 'RequestMessage',
+        requestId: 'request-id',
+        destination: ['worker'],
+      })
+    })
+
+    it('should correlate progress updates with the request', () => {
+      const requestMessage = new ConcreteRequestMessage('RequestMessage', ['worker'])
+      requestMessage.id = 'request-id'
+      requestMessage.source = ['system', 'source']
+
+      const progress = new ProgressMessage(requestMessage, { percent: 40, stage: 'parsing' })
+
+      expect(progress).toMatchObject({
+        type: MessageType.PROGRESS,
+        requestId: 'request-id',
+        destination: ['system', 'source'],
+        data: { percent: 40, stage: 'parsing' },
+      })
+    })
+  })
+
   // Test edge cases
   describe('Edge Cases for Extended Messages', () => {
     it('should handle missing data in extended GeneralMessage', () => {
@@ -2,16 +2,31 @@ import { MessagingService } from '../../src/services'
 import { GeneralMessage } from '../../src/models/general-message'
 import { ResponseMessage } from '../../src/models/response-message'
 import { RequestMessage } from '../../src/models/request-message'
+import { StreamChunkMessage } from '../../src/models/stream-chunk-message'
+import { StreamEndMessage } from '../../src/models/stream-end-message'
 import { ExtendedGeneralMessageMock } from '../../__mocks__/extended-general-message-mock'
 import { ConcreteRequestMessageMock } from '../../__mocks__/concrete-request-message-mock'
 import { ConcreteResponseMessageMock } from '../../__mocks__/concrete-response-message-mock'
 import { MessageType } from '../../src/types/message-type'
+import {
+  RemoteError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  WorkerCrashedError,
+} from '../../src/errors'
 import { Messenger } from '../../src/types/messenger'
 
 import { WorkerMock } from '../../__mocks__/worker-mock'
 import { messengerAsString } from '../../src/utils/messenger-utils'
 
-import { Worker } from 'worker_threads'
+import { MessageChannel, Worker } from 'worker_threads'
+import { fork } from 'child_process'
+import { v4 as generateUUID } from 'uuid'
+import {
+  BufferedTransport,
+  MESSENGER_ENV_VARIABLE,
+  MessagePortTransport,
+} from '../../src/transports'
 
 function createErrorWorkerScript(workerMessenger: string): string {
   return `
@@ -31,6 +46,14 @@ jest.mock('uuid', () => ({
   v4: jest.fn(() => 'mock-uuid'),
 }))
 
+// Resolves once the mock has been called the given number of times
+function calledTimes(mock: jest.Mock, times: number): Promise<void> {
+  return new Promise((resolve) => {
+    const check = () => (mock.mock.calls.length >= times ? resolve() : setImmediate(check))
+    check()
+  })
+}
+
 describe('MessagingService', () => {
   it('should get an instance', async () => {
     const messagingService = await MessagingService.getInstance()
@@ -103,6 +126,24 @@ describe('MessagingService', () => {
     worker.terminate()
   })
 
+  it('should remove every worker and its supervisor when a non-root service cleans up', () => {
+    const { port1 } = new MessageChannel()
+    const transport = { send: jest.fn(), onMessage: jest.fn(() => jest.fn()), close: jest.fn() }
+
+    const messagingService = MessagingService.create({ messenger: '/parent' })
+    messagingService.addWorker('port', port1)
+    messagingService.addWorker('supervised', transport, { factory: () => transport })
+
+    messagingService.cleanUp()
+
+    expect(messagingService['workers'].size).toBe(0)
+    expect(messagingService['workerListeners'].size).toBe(0)
+    expect(messagingService['workerSupervisors'].size).toBe(0)
+    expect(transport.onMessage.mock.results[0].value).toHaveBeenCalled()
+
+    port1.close()
+  })
+
   it('should send a message and handle responses', async () => {
     const workerMessenger = '/root/response-worker'
     const worker = new Worker('./__mocks__/response-worker.js', {
@@ -151,5 +192,1350 @@ describe('MessagingService', () => {
     // clean up worker
     worker.terminate()
   })
-  
+
+  it('should reject a request with RequestTimeoutError when no response arrives', async () => {
+    const workerMessenger = '/silent'
+    const worker = new Worker('./__mocks__/silent-worker.js', {
+      workerData: { name: workerMessenger },
+    })
+
+    const messagingService = await MessagingService.getInstance()
+    messagingService.addWorker(workerMessenger, worker)
+
+    const request = new ConcreteRequestMessageMock(workerMessenger)
+
+    await expect(messagingService.sendMessage(request, { timeoutMs: 50 })).rejects.toBeInstanceOf(
+      RequestTimeoutError
+    )
+    expect(messagingService['responseHandlers'].size).toBe(0)
+
+    // clean up worker
+    messagingService.removeWorker(workerMessenger)
+    worker.terminate()
+  })
+
+  it('should use the service-wide request timeout by default', async () => {
+    const workerMessenger = '/silent'
+    const worker = new Worker('./__mocks__/silent-worker.js', {
+      workerData: { name: workerMessenger },
+    })
+
+    const messagingService = await MessagingService.getInstance()
+    messagingService.addWorker(workerMessenger, worker)
+    messagingService.requestTimeoutMs = 50
+
+    const request = new ConcreteRequestMessageMock(workerMessenger)
+
+    await expect(messagingService.sendMessage(request)).rejects.toMatchObject({
+      name: 'RequestTimeoutError',
+      timeoutMs: 50,
+    })
+    expect(messagingService['responseHandlers'].size).toBe(0)
+
+    // clean up worker
+    messagingService.requestTimeoutMs = undefined
+    messagingService.removeWorker(workerMessenger)
+    worker.terminate()
+  })
+
+  it('should reject a request with RequestAbortedError when the signal aborts', async () => {
+    const workerMessenger = '/silent'
+    const worker = new Worker('./__mocks__/silent-worker.js', {
+      workerData: { name: workerMessenger },
+    })
+
+    const messagingService = await MessagingService.getInstance()
+    messagingService.addWorker(workerMessenger, worker)
+
+    const controller = new AbortController()
+    const request = new ConcreteRequestMessageMock(workerMessenger)
+    const responsePromise = messagingService.sendMessage(request, { signal: controller.signal })
+
+    controller.abort('no longer needed')
+
+    await expect(responsePromise).rejects.toBeInstanceOf(RequestAbortedError)
+    await expect(responsePromise).rejects.toMatchObject({ reason: 'no longer needed' })
+    expect(messagingService['responseHandlers'].size).toBe(0)
+
+    // clean up worker
+    messagingService.removeWorker(workerMessenger)
+    worker.terminate()
+  })
+
+  it('should reject a request with RemoteError when an error response arrives', async () => {
+    const workerMessenger = '/error-worker'
+    const worker = new Worker('./__mocks__/error-worker.js', {
+      workerData: { name: workerMessenger },
+    })
+
+    const messagingService = await MessagingService.getInstance()
+    messagingService.addWorker(workerMessenger, worker)
+
+    const request = new ConcreteRequestMessageMock(workerMessenger)
+    const responsePromise = messagingService.sendMessage(request)
+
+    await expect(responsePromise).rejects.toBeInstanceOf(RemoteError)
+    await expect(responsePromise).rejects.toMatchObject({
+      message: 'Mock Error Message',
+      remoteName: 'TypeError',
+      code: 'E_MOCK',
+      source: workerMessenger,
+      requestId: 'mock-uuid',
+    })
+    expect(messagingService['responseHandlers'].size).toBe(0)
+
+    // clean up worker
+    messagingService.removeWorker(workerMessenger)
+    worker.terminate()
+  })
+
+  it('should reply to a request with the result of its registered handler', async () => {
+    const workerMessenger = '/requester'
+
+    const messagingService = await MessagingService.getInstance()
+
+    const resultPromise = new Promise<GeneralMessage<any>>((resolve) => {
+      messagingService.messageReceivedCallback = resolve
+    })
+
+    const addHandler = jest.fn(async (data: { a: number; b: number } | undefined) => {
+      return data!.a + data!.b
+    })
+    messagingService.handle('add', addHandler)
+
+    const worker = new Worker('./__mocks__/requester-worker.js', {
+      workerData: { name: workerMessenger, requestName: 'add', requestData: { a: 1, b: 2 } },
+    })
+    messagingService.addWorker(workerMessenger, worker)
+
+    const result = await resultPromise
+
+    expect(addHandler).toHaveBeenCalledWith(
+      { a: 1, b: 2 },
+      expect.objectContaining({ name: 'add' }),
+      expect.objectContaining({ progress: expect.any(Function) })
+    )
+    expect(result.data).toMatchObject({
+      name: 'add',
+      type: MessageType.RESPONSE,
+      destination: workerMessenger,
+      requestId: 'worker-request-uuid',
+      data: 3,
+    })
+
+    // clean up worker
+    messagingService.off('add')
+    messagingService.removeWorker(workerMessenger)
+    worker.terminate()
+  })
+
+  it('should reply with an error response when the handler throws', async () => {
+    const workerMessenger = '/requester'
+
+    const messagingService = await MessagingService.getInstance()
+
+    const resultPromise = new Promise<GeneralMessage<any>>((resolve) => {
+      messagingService.messageReceivedCallback = resolve
+    })
+
+    messagingService.handle('fail', () => {
+      throw new TypeError('Handler failed')
+    })
+
+    const worker = new Worker('./__mocks__/requester-worker.js', {
+      workerData: { name: workerMessenger, requestName: 'fail' },
+    })
+    messagingService.addWorker(workerMessenger, worker)
+
+    const result = await resultPromise
+
+    expect(result.data).toMatchObject({
+      name: 'fail',
+      type: MessageType.ERROR,
+      requestId: 'worker-request-uuid',
+      data: { name: 'TypeError', message: 'Handler failed' },
+    })
+
+    // clean up worker
+    messagingService.off('fail')
+    messagingService.removeWorker(workerMessenger)
+    worker.terminate()
+  })
+
+  it('should fall back to the message received callback for unhandled names', async () => {
+    const workerMessenger = '/requester'
+
+    const messagingService = await MessagingService.getInstance()
+
+    const requestPromise = new Promise<GeneralMessage<any>>((resolve) => {
+      messagingService.messageReceivedCallback = resolve
+    })
+
+    messagingService.handle('unused', jest.fn())
+    messagingService.off('unused')
+
+    const worker = new Worker('./__mocks__/requester-worker.js', {
+      workerData: { name: workerMessenger, requestName: 'unused' },
+    })
+    messagingService.addWorker(workerMessenger, worker)
+
+    const request = await requestPromise
+
+    expect(request).toMatchObject({ name: 'unused', type: MessageType.REQUEST })
+
+    // clean up worker
+    messagingService.removeWorker(workerMessenger)
+    worker.terminate()
+  })
+
+  it('should reply with an error response when the message received callback throws', async () => {
+    const { services, cleanUp } = createChain('/', '/child')
+    const [root, child] = services
+
+    child.messageReceivedCallback = () => {
+      throw new TypeError('Callback failed')
+    }
+
+    const response = root.sendMessage(new RequestMessage('unhandled', '/child'), {
+      timeoutMs: 5000,
+    })
+
+    await expect(response).rejects.toBeInstanceOf(RemoteError)
+    await expect(response).rejects.toMatchObject({
+      message: 'Callback failed',
+      remoteName: 'TypeError',
+      source: '/child',
+    })
+
+    cleanUp()
+  })
+
+  it('should route requests through a custom transport', async () => {
+    const workerMessenger = '/port-worker'
+    const { port1, port2 } = new MessageChannel()
+
+    // Answer requests on the other end of the channel
+    const remote = new MessagePortTransport(port2 as unknown as MessagePort)
+    remote.onMessage((request) => {
+      remote.send(new ResponseMessage('port-response', request as RequestMessage<any>, 'pong'))
+    })
+
+    const messagingService = await MessagingService.getInstance()
+    messagingService.addWorker(
+      'port-worker',
+      new MessagePortTransport(port1 as unknown as MessagePort)
+    )
+
+    const response = await messagingService.sendMessage(new RequestMessage('ping', workerMessenger))
+
+    expect(response).toMatchObject({ name: 'port-response', requestId: 'mock-uuid', data: 'pong' })
+
+    // clean up transports
+    messagingService.removeWorker('port-worker')
+    port1.close()
+    remote.close()
+  })
+})
+
+describe('MessagingService.create', () => {
+  it('should create independent services', async () => {
+    const first = MessagingService.create()
+    const second = MessagingService.create({ messenger: '/library', requestTimeoutMs: 100 })
+
+    expect(first).not.toBe(second)
+    expect(first).not.toBe(await MessagingService.getInstance())
+    expect(messengerAsString(first['messenger'])).toBe('/')
+    expect(messengerAsString(second['messenger'])).toBe('/library')
+    expect(second.requestTimeoutMs).toBe(100)
+  })
+
+  it('should connect services in the same thread through their upstream', async () => {
+    const { port1, port2 } = new MessageChannel()
+
+    const root = MessagingService.create({ messenger: '/' })
+    const child = MessagingService.create({ messenger: '/child', upstream: port2 })
+    root.addWorker('child', port1)
+
+    child.handle('greet', (name: string | undefined) => `Hello, ${name}!`)
+
+    const response = await root.sendMessage(new RequestMessage('greet', '/child', 'root'))
+
+    expect(response).toMatchObject({ source: '/child', destination: '/', data: 'Hello, root!' })
+    expect(response).toBeInstanceOf(ResponseMessage)
+
+    // clean up ports
+    root.cleanUp()
+    child.cleanUp()
+    port1.close()
+  })
+
+  it('should send directly to a worker passed instead of the options', async () => {
+    const messagingService = MessagingService.create()
+    const sent: GeneralMessage<any>[] = []
+    const worker = {
+      send: (message: GeneralMessage<any>) => sent.push(message),
+      onMessage: () => () => {},
+      close: () => {},
+    }
+
+    await messagingService.sendMessage(new GeneralMessage('hello', '/elsewhere'), worker as any)
+
+    expect(sent).toHaveLength(1)
+    expect(sent[0]).toMatchObject({ name: 'hello', destination: '/elsewhere' })
+  })
+})
+
+describe('MessagingService with child processes', () => {
+  it('should send a request to a forked child process and handle its response', async () => {
+    const childMessenger = '/child-process'
+    const child = fork('./__mocks__/response-child-process.js', {
+      env: { ...process.env, [MESSENGER_ENV_VARIABLE]: childMessenger },
+    })
+
+    const messagingService = MessagingService.create()
+    messagingService.addWorker('child-process', child)
+
+    const response = await messagingService.sendMessage(
+      new ConcreteRequestMessageMock(childMessenger),
+      { timeoutMs: 5000 }
+    )
+
+    expect(response).toMatchObject({ source: childMessenger, requestId: 'mock-uuid' })
+
+    // clean up child process
+    messagingService.cleanUp()
+    await new Promise((resolve) => child.once('exit', resolve))
+  })
+
+  it('should wait for the MessagingService of a forked child and route requests to it', async () => {
+    const childMessenger = '/service-child'
+    const child = fork('./__mocks__/service-child-process.js', {
+      env: { ...process.env, [MESSENGER_ENV_VARIABLE]: childMessenger },
+    })
+
+    const messagingService = MessagingService.create()
+    messagingService.addWorker('service-child', child, { waitForReady: true })
+
+    // Sent before the child is ready, so it is buffered until the child announces itself
+    const response = messagingService.sendMessage(
+      new RequestMessage('greet', childMessenger, 'root'),
+      { timeoutMs: 10000 }
+    )
+
+    await messagingService.whenReady(childMessenger)
+    await expect(response).resolves.toMatchObject({
+      source: childMessenger,
+      destination: '/',
+      data: 'Hello, root, from /service-child!',
+    })
+
+    // clean up child process
+    messagingService.cleanUp()
+    const exited = new Promise((resolve) => child.once('exit', resolve))
+    child.disconnect()
+    await exited
+  }, 20000)
+})
+
+describe('MessagingService worker supervision', () => {
+  it('should reject pending requests and remove the worker when it crashes', async () => {
+    const workerMessenger = '/crash'
+    const worker = new Worker('./__mocks__/crash-worker.js', {
+      workerData: { name: workerMessenger },
+    })
+
+    const messagingService = MessagingService.create()
+    messagingService.addWorker('crash', worker)
+
+    const crashed = new Promise((resolve) => messagingService.events.on('worker-crashed', resolve))
+
+    const responsePromise = messagingService.sendMessage(
+      new ConcreteRequestMessageMock(workerMessenger)
+    )
+
+    await expect(responsePromise).rejects.toBeInstanceOf(WorkerCrashedError)
+    await expect(responsePromise).rejects.toMatchObject({ worker: workerMessenger })
+    await expect(crashed).resolves.toMatchObject({ worker: workerMessenger, willRestart: false })
+    expect(messagingService['workers'].size).toBe(0)
+    expect(messagingService['responseHandlers'].size).toBe(0)
+  })
+
+  it('should restart a crashed worker from its factory until the restart limit', async () => {
+    const workerMessenger = '/crash'
+    const factory = jest.fn(
+      () => new Worker('./__mocks__/crash-worker.js', { workerData: { name: workerMessenger } })
+    )
+
+    const messagingService = MessagingService.create()
+    messagingService.addWorker('crash', factory(), {
+      factory,
+      restartPolicy: { maxRestarts: 1, backoffMs: 10 },
+    })
+
+    const restarted = new Promise((resolve) =>
+      messagingService.events.on('worker-restarted', resolve)
+    )
+
+    await expect(
+      messagingService.sendMessage(new ConcreteRequestMessageMock(workerMessenger))
+    ).rejects.toBeInstanceOf(WorkerCrashedError)
+    await expect(restarted).resolves.toEqual({ worker: workerMessenger, restarts: 1 })
+    expect(messagingService['workers'].has(workerMessenger)).toBe(true)
+
+    const crashed = new Promise((resolve) => messagingService.events.on('worker-crashed', resolve))
+
+    await expect(
+      messagingService.sendMessage(new ConcreteRequestMessageMock(workerMessenger))
+    ).rejects.toBeInstanceOf(WorkerCrashedError)
+    await expect(crashed).resolves.toMatchObject({ willRestart: false })
+    expect(factory).toHaveBeenCalledTimes(2)
+    expect(messagingService['workers'].size).toBe(0)
+  })
+
+  it('should answer requests relayed to a crashed worker with an error response', async () => {
+    const { port1, port2 } = new MessageChannel()
+    const root = MessagingService.create()
+    const mid = MessagingService.create({ messenger: '/mid', upstream: port2 })
+    root.addWorker('mid', port1)
+    mid.addWorker(
+      'crash',
+      new Worker('./__mocks__/crash-worker.js', { workerData: { name: '/mid/crash' } })
+    )
+
+    const crashed = new Promise((resolve) => mid.events.on('worker-crashed', resolve))
+
+    const responsePromise = root.sendMessage(new RequestMessage('work', '/mid/crash'))
+
+    await expect(responsePromise).rejects.toBeInstanceOf(RemoteError)
+    await expect(responsePromise).rejects.toMatchObject({
+      remoteName: 'WorkerCrashedError',
+      source: '/mid',
+    })
+    await crashed
+    expect(mid['relayedRequests'].size).toBe(0)
+
+    // clean up ports
+    root.cleanUp()
+    mid.cleanUp()
+    port1.close()
+    port2.close()
+  })
+})
+
+describe('MessagingService readiness', () => {
+  it('should buffer messages until the worker announces it is ready', async () => {
+    const { port1, port2 } = new MessageChannel()
+
+    const root = MessagingService.create({ messenger: '/' })
+    root.addWorker('child', port1, { waitForReady: true })
+
+    const response = root.sendMessage(new RequestMessage('greet', '/child', 'root'))
+    const transport = root['workers'].get('/child') as BufferedTransport
+
+    expect(transport.isReady).toBe(false)
+    expect(transport.queueLength).toBe(1)
+
+    const child = MessagingService.create({ messenger: '/child', upstream: port2 })
+    child.handle('greet', (name: string | undefined) => `Hello, ${name}!`)
+
+    await root.whenReady('/child')
+
+    expect(transport.isReady).toBe(true)
+    await expect(response).resolves.toMatchObject({ data: 'Hello, root!' })
+    await expect(root.whenReady('/child')).resolves.toBeUndefined()
+
+    // clean up ports
+    root.cleanUp()
+    child.cleanUp()
+    port1.close()
+  })
+})
+
+describe('MessagingService.spawnWorker', () => {
+  it('should spawn a worker with its full messenger path and deliver messages once it is ready', async () => {
+    const messagingService = MessagingService.create({ messenger: '/parent' })
+    const received = new Promise<GeneralMessage<any>>((resolve) => {
+      messagingService.messageReceivedCallback = resolve
+    })
+
+    const spawned = await messagingService.spawnWorker('child', './__mocks__/ready-worker.js', {
+      workerOptions: { workerData: { extra: true } },
+    })
+
+    expect(spawned.messenger).toBe('/parent/child')
+
+    messagingService.sendMessage(new GeneralMessage('hello', '/parent/child', 'data'))
+    await spawned.ready
+
+    await expect(received).resolves.toMatchObject({
+      name: 'worker-changed-hello',
+      source: '/parent/child',
+    })
+
+    await spawned.terminate()
+    expect(messagingService['workers'].size).toBe(0)
+  })
+
+  it('should reject ready when the worker exits before it is ready', async () => {
+    const messagingService = MessagingService.create({ messenger: '/parent' })
+
+    const spawned = await messagingService.spawnWorker('child', './__mocks__/exit-worker.js')
+
+    await expect(spawned.ready).rejects.toThrow(WorkerCrashedError)
+    await expect(spawned.ready).rejects.toMatchObject({ worker: '/parent/child', exitCode: 1 })
+    expect(messagingService['readyWaiters'].size).toBe(0)
+  })
+})
+
+describe('MessagingService transferables', () => {
+  it('should transfer objects through intermediate hops instead of copying them', async () => {
+    const rootChannel = new MessageChannel()
+    const middleChannel = new MessageChannel()
+
+    const root = MessagingService.create({ messenger: '/' })
+    const middle = MessagingService.create({ messenger: '/middle', upstream: rootChannel.port2 })
+    const leaf = MessagingService.create({
+      messenger: '/middle/leaf',
+      upstream: middleChannel.port2,
+    })
+    root.addWorker('middle', rootChannel.port1)
+    middle.addWorker('leaf', middleChannel.port1)
+
+    const received = new Promise<GeneralMessage<any>>((resolve) => {
+      leaf.messageReceivedCallback = resolve
+    })
+
+    const buffer = new Uint8Array([1, 2, 3]).buffer
+    await root.sendMessage(new GeneralMessage('buffer', '/middle/leaf', buffer), {
+      transfer: [buffer],
+    })
+
+    // The sender's buffer is detached once it has been transferred
+    expect(buffer.byteLength).toBe(0)
+
+    const message = await received
+    expect(new Uint8Array(message.data)).toEqual(new Uint8Array([1, 2, 3]))
+    expect(message.transfer![0]).toBe(message.data)
+
+    // clean up ports
+    root.cleanUp()
+    middle.cleanUp()
+    leaf.cleanUp()
+    rootChannel.port1.close()
+    middleChannel.port1.close()
+  })
+})
+
+describe('MessagingService middleware', () => {
+  function connect() {
+    const { services, cleanUp } = createChain('/', '/middle', '/middle/leaf')
+    const [root, middle, leaf] = services
+    leaf.handle('greet', (name: string | undefined) => `Hello, ${name}!`)
+
+    return { root, middle, leaf, cleanUp }
+  }
+
+  it('should run send middleware around the delivery of a request and its response', async () => {
+    const { root, cleanUp } = connect()
+    const calls: string[] = []
+
+    root.use('send', async (context, next) => {
+      calls.push(`before ${context.direction} ${context.message.name}`)
+      context.message.data = context.message.data.toUpperCase()
+      await next()
+      calls.push(`after ${context.response?.data}`)
+    })
+
+    const response = await root.sendMessage(new RequestMessage('greet', '/middle/leaf', 'root'))
+
+    expect(response).toMatchObject({ data: 'Hello, ROOT!' })
+    expect(calls).toEqual(['before send greet', 'after Hello, ROOT!'])
+
+    cleanUp()
+  })
+
+  it('should short-circuit requests with a response from middleware', async () => {
+    const { root, middle, leaf, cleanUp } = connect()
+    const leafHandler = jest.fn()
+    leaf.handle('cached', leafHandler)
+
+    root.use('send', (context, next) =>
+      context.message.name === 'local' ? context.respond('from root') : next()
+    )
+    middle.use('forward', (context) => context.respond('from middle'))
+
+    await expect(
+      root.sendMessage(new RequestMessage('local', '/middle/leaf'))
+    ).resolves.toMatchObject({ source: '/', data: 'from root' })
+    await expect(
+      root.sendMessage(new RequestMessage('cached', '/middle/leaf'))
+    ).resolves.toMatchObject({ source: '/middle', data: 'from middle' })
+    expect(leafHandler).not.toHaveBeenCalled()
+
+    cleanUp()
+  })
+
+  it('should drop messages when middleware does not call next', async () => {
+    const { root, leaf, cleanUp } = connect()
+    const received = jest.fn()
+    leaf.messageReceivedCallback = received
+
+    const removeMiddleware = leaf.use('receive', (context, next) =>
+      context.message.data === 'drop' ? undefined : next()
+    )
+
+    // Messages arrive in order, so the dropped message was handled once the kept one arrives
+    await root.sendMessage(new GeneralMessage('note', '/middle/leaf', 'drop'))
+    await root.sendMessage(new GeneralMessage('note', '/middle/leaf', 'keep'))
+    await calledTimes(received, 1)
+
+    expect(received).toHaveBeenCalledTimes(1)
+    expect(received).toHaveBeenCalledWith(expect.objectContaining({ data: 'keep' }))
+
+    removeMiddleware()
+    await root.sendMessage(new GeneralMessage('note', '/middle/leaf', 'drop'))
+    await calledTimes(received, 2)
+
+    expect(received).toHaveBeenLastCalledWith(expect.objectContaining({ data: 'drop' }))
+
+    cleanUp()
+  })
+
+  it('should answer requests rejected by middleware with an error response', async () => {
+    const { root, leaf, cleanUp } = connect()
+
+    leaf.use('receive', (context, next) => {
+      if (typeof context.message.data !== 'string') {
+        throw new TypeError('Expected a name')
+      }
+      return next()
+    })
+
+    await expect(
+      root.sendMessage(new RequestMessage('greet', '/middle/leaf', 42))
+    ).rejects.toMatchObject({ remoteName: 'TypeError', message: 'Expected a name' })
+
+    cleanUp()
+  })
+
+  it('should dead-letter responses rejected by send middleware on the responder', async () => {
+    const { root, leaf, cleanUp } = connect()
+
+    leaf.use('send', () => {
+      throw new Error('denied')
+    })
+    const deadLetter = new Promise<any>((resolve) => leaf.events.on('dead-letter', resolve))
+
+    await expect(
+      root.sendMessage(new RequestMessage('greet', '/middle/leaf', 'Ada'), { timeoutMs: 50 })
+    ).rejects.toThrow(RequestTimeoutError)
+    await expect(deadLetter).resolves.toMatchObject({
+      reason: 'send-failed',
+      message: { type: MessageType.RESPONSE, name: 'greet' },
+    })
+
+    cleanUp()
+  })
+
+  it('should populate standard metadata and carry headers across forwarding hops', async () => {
+    const { root, leaf, cleanUp } = connect()
+    let received: any
+    leaf.use('receive', (context, next) => {
+      received = context.message
+      return next()
+    })
+
+    const before = Date.now()
+    const request = new RequestMessage('greet', '/middle/leaf', 'root')
+    const response = await root.sendMessage(request, {
+      headers: { tenant: 'acme', attempt: 1 },
+      timeoutMs: 1000,
+    })
+
+    expect(received).toMatchObject({
+      headers: { tenant: 'acme', attempt: 1 },
+      timestamp: request.timestamp,
+      correlationId: request.id,
+      expiresAt: request.timestamp! + 1000,
+    })
+    expect(request.timestamp).toBeGreaterThanOrEqual(before)
+    expect(response).toMatchObject({ correlationId: request.id, data: 'Hello, root!' })
+
+    cleanUp()
+  })
+})
+
+describe('MessagingService dead letters', () => {
+  it('should detect routing loops caused by a worker with a mismatched name', async () => {
+    const { port1, port2 } = new MessageChannel()
+
+    const root = MessagingService.create({ messenger: '/' })
+    // The worker is added as "/a" but believes it is "/b", so it sends "/a/x" back upstream
+    const misnamed = MessagingService.create({ messenger: '/b', upstream: port2 })
+    root.addWorker('a', port1)
+
+    const deadLetter = new Promise<any>((resolve) => root.events.on('dead-letter', resolve))
+    await root.sendMessage(new GeneralMessage('note', '/a/x'))
+
+    await expect(deadLetter).resolves.toMatchObject({
+      reason: 'loop',
+      message: { name: 'note', hops: 1, visited: ['/', '/b'] },
+    })
+
+    root.cleanUp()
+    misnamed.cleanUp()
+    port1.close()
+  })
+
+  it('should dead-letter messages forwarded more than maxHops times', async () => {
+    const rootChannel = new MessageChannel()
+    const middleChannel = new MessageChannel()
+
+    const root = MessagingService.create({ messenger: '/' })
+    const middle = MessagingService.create({
+      messenger: '/middle',
+      upstream: rootChannel.port2,
+      maxHops: 0,
+    })
+    const leaf = MessagingService.create({
+      messenger: '/middle/leaf',
+      upstream: middleChannel.port2,
+    })
+    root.addWorker('middle', rootChannel.port1)
+    middle.addWorker('leaf', middleChannel.port1)
+
+    const received = jest.fn()
+    leaf.messageReceivedCallback = received
+    const deadLetter = new Promise<any>((resolve) => middle.events.on('dead-letter', resolve))
+
+    await root.sendMessage(new GeneralMessage('note', '/middle/leaf'))
+
+    await expect(deadLetter).resolves.toMatchObject({ reason: 'max-hops' })
+    expect(received).not.toHaveBeenCalled()
+    expect(middle.getMetrics().messages).toMatchObject([{ name: 'note', dropped: 1 }])
+
+    root.cleanUp()
+    middle.cleanUp()
+    leaf.cleanUp()
+    rootChannel.port1.close()
+    middleChannel.port1.close()
+  })
+
+  it('should recompute expiresAt when a timed-out request is sent again', async () => {
+    const { port1, port2 } = new MessageChannel()
+    const root = MessagingService.create({ messenger: '/' })
+    const child = MessagingService.create({ messenger: '/child', upstream: port2 })
+    root.addWorker('child', port1)
+
+    let calls = 0
+    child.handle('flaky', () => (++calls === 1 ? new Promise(() => {}) : 'done'))
+    const deadLetters: any[] = []
+    child.events.on('dead-letter', (event) => deadLetters.push(event))
+
+    // The retry has the same id, so wait for the cancel of the first attempt before sending it
+    const cancelled = new Promise<void>((resolve) =>
+      child.use('receive', (context, next) => {
+        if (context.message.type === MessageType.CANCEL) {
+          resolve()
+        }
+        return next()
+      })
+    )
+
+    const request = new RequestMessage('flaky', '/child')
+    await expect(root.sendMessage(request, { timeoutMs: 20 })).rejects.toThrow(RequestTimeoutError)
+    const firstExpiresAt = request.expiresAt
+    await cancelled
+
+    const response = await root.sendMessage(request, { timeoutMs: 1000 })
+
+    expect(response?.data).toBe('done')
+    expect(request.expiresAt).toBeGreaterThan(firstExpiresAt!)
+    expect(deadLetters).toEqual([])
+
+    // Metadata set by the caller is kept
+    const expiring = new RequestMessage('flaky', '/child')
+    expiring.expiresAt = Date.now() - 1000
+    await root.sendMessage(expiring, { timeoutMs: 50 }).catch(() => {})
+    expect(expiring.expiresAt).toBeLessThan(Date.now())
+
+    root.cleanUp()
+    child.cleanUp()
+    port1.close()
+  })
+
+  it('should dead-letter expired messages and messages without a route', async () => {
+    const { port1, port2 } = new MessageChannel()
+
+    const root = MessagingService.create({ messenger: '/' })
+    const child = MessagingService.create({ messenger: '/child', upstream: port2 })
+    root.addWorker('child', port1)
+
+    const received = jest.fn()
+    child.messageReceivedCallback = received
+    const childDeadLetters: any[] = []
+    const rootDeadLetters: any[] = []
+    child.events.on('dead-letter', (event) => childDeadLetters.push(event))
+    root.events.on('dead-letter', (event) => rootDeadLetters.push(event))
+    const childDeadLetter = new Promise((resolve) => child.events.on('dead-letter', resolve))
+
+    const expired = new GeneralMessage('note', '/child', 'expired')
+    expired.expiresAt = Date.now() - 1000
+    await root.sendMessage(expired)
+    await root.sendMessage(new GeneralMessage('note', '/missing'))
+    await childDeadLetter
+
+    expect(received).not.toHaveBeenCalled()
+    expect(childDeadLetters).toMatchObject([{ reason: 'expired', message: { data: 'expired' } }])
+    expect(rootDeadLetters).toMatchObject([{ reason: 'no-route', message: { name: 'note' } }])
+
+    root.cleanUp()
+    child.cleanUp()
+    port1.close()
+  })
+})
+
+/**
+ * Links services for the given messengers, each the parent of the next (e.g. `/`, `/middle` and
+ * `/middle/leaf`).
+ */
+function createChain(...messengers: string[]) {
+  const channels = messengers.slice(1).map(() => new MessageChannel())
+  const services = messengers.map((messenger, index) =>
+    MessagingService.create({ messenger, upstream: channels[index - 1]?.port2 })
+  )
+  channels.forEach((channel, index) =>
+    services[index].addWorker(messengers[index + 1].split('/').pop()!, channel.port1)
+  )
+
+  const cleanUp = () => {
+    services.forEach((service) => service.cleanUp())
+    channels.forEach((channel) => channel.port1.close())
+  }
+
+  return { services, cleanUp }
+}
+
+/**
+ * Links services for `/`, `/a`, `/b` and `/a/x` and records the messages each of them receives.
+ */
+function createTree() {
+  const aChannel = new MessageChannel()
+  const bChannel = new MessageChannel()
+  const xChannel = new MessageChannel()
+
+  const root = MessagingService.create({ messenger: '/' })
+  const a = MessagingService.create({ messenger: '/a', upstream: aChannel.port2 })
+  const b = MessagingService.create({ messenger: '/b', upstream: bChannel.port2 })
+  const x = MessagingService.create({ messenger: '/a/x', upstream: xChannel.port2 })
+  root.addWorker('a', aChannel.port1)
+  root.addWorker('b', bChannel.port1)
+  a.addWorker('x', xChannel.port1)
+
+  const services = { root, a, b, x }
+  const received: Record<string, jest.Mock> = {}
+  Object.entries(services).forEach(([key, service]) => {
+    received[key] = jest.fn()
+    service.messageReceivedCallback = received[key]
+  })
+
+  const cleanUp = () => {
+    Object.values(services).forEach((service) => service.cleanUp())
+    ;[aChannel, bChannel, xChannel].forEach((channel) => channel.port1.close())
+  }
+
+  const channels = { a: aChannel, b: bChannel, x: xChannel }
+  return { services, channels, received, cleanUp }
+}
+
+describe('MessagingService broadcasts', () => {
+  beforeEach(() => {
+    // Give every message its own id, so that broadcasts are only de-duplicated when they are repeated
+    let sequence = 0
+    jest.mocked(generateUUID).mockImplementation((() => `uuid-${++sequence}`) as any)
+  })
+
+  afterEach(() => {
+    jest.mocked(generateUUID).mockImplementation((() => 'mock-uuid') as any)
+  })
+
+  function createBroadcast(destination: string, data?: string) {
+    const message = new GeneralMessage('note', destination, data)
+    message.broadcast = true
+    return message
+  }
+
+  it('should deliver a broadcast once to every messenger in the destination subtree', async () => {
+    const { services, received, cleanUp } = createTree()
+
+    await services.root.sendMessage(createBroadcast('/a'))
+    await Promise.all([calledTimes(received.a, 1), calledTimes(received.x, 1)])
+
+    expect(received.a).toHaveBeenCalledTimes(1)
+    expect(received.x).toHaveBeenCalledTimes(1)
+    expect(received.b).not.toHaveBeenCalled()
+    expect(received.root).not.toHaveBeenCalled()
+
+    cleanUp()
+  })
+
+  it('should deliver a broadcast from a worker to its ancestors and their other workers', async () => {
+    const { services, received, cleanUp } = createTree()
+
+    await services.x.sendMessage(createBroadcast('/'))
+    await Promise.all([
+      calledTimes(received.a, 1),
+      calledTimes(received.root, 1),
+      calledTimes(received.b, 1),
+    ])
+
+    expect(received.a).toHaveBeenCalledTimes(1)
+    expect(received.root).toHaveBeenCalledTimes(1)
+    expect(received.b).toHaveBeenCalledTimes(1)
+    expect(received.x).not.toHaveBeenCalled()
+
+    cleanUp()
+  })
+
+  it('should deliver every distinct broadcast', async () => {
+    const { services, received, cleanUp } = createTree()
+
+    await services.root.sendMessage(createBroadcast('/', 'first'))
+    await services.root.sendMessage(createBroadcast('/', 'second'))
+    await Promise.all(
+      [received.a, received.b, received.x].map((callback) => calledTimes(callback, 2))
+    )
+
+    ;[received.a, received.b, received.x].forEach((callback) => {
+      expect(callback.mock.calls.map(([message]) => message.data)).toEqual(['first', 'second'])
+    })
+
+    cleanUp()
+  })
+
+  it('should ignore a broadcast that was already handled', async () => {
+    const { channels, received, cleanUp } = createTree()
+
+    // The same broadcast arriving twice, e.g. because an upstream relayed it again
+    const duplicate = createBroadcast('/', 'duplicate')
+    duplicate.id = 'duplicate-id'
+    duplicate.source = '/'
+    duplicate.hops = 0
+    duplicate.visited = ['/']
+    channels.a.port1.postMessage(duplicate)
+    channels.a.port1.postMessage(duplicate)
+
+    // Messages arrive in order, so the duplicate was handled once a later broadcast arrives
+    const marker = { ...duplicate, id: 'marker-id', data: 'marker' }
+    channels.a.port1.postMessage(marker)
+    await Promise.all([calledTimes(received.a, 2), calledTimes(received.x, 2)])
+
+    expect(received.a.mock.calls.map(([message]) => message.data)).toEqual(['duplicate', 'marker'])
+    expect(received.x.mock.calls.map(([message]) => message.data)).toEqual(['duplicate', 'marker'])
+
+    cleanUp()
+  })
+})
+
+describe('MessagingService.gather', () => {
+  it('should collect a response from every messenger in the scope with its source', async () => {
+    const { services, cleanUp } = createTree()
+    services.a.handle('whoami', () => '/a')
+    services.b.handle('whoami', () => '/b')
+    services.x.handle('whoami', () => '/a/x')
+
+    const result = await services.root.gather(new RequestMessage('whoami', '/'), {
+      expected: ['/a', '/b', '/a/x'],
+      timeoutMs: 1000,
+    })
+
+    expect(result.timedOut).toBe(false)
+    expect(result.missing).toEqual([])
+    expect(result.errors).toEqual([])
+    expect(result.responses.map(({ source }) => source).sort()).toEqual(['/a', '/a/x', '/b'])
+    result.responses.forEach(({ source, response }) => expect(response.data).toBe(source))
+
+    cleanUp()
+  })
+
+  it('should complete once the quorum of responses is reached', async () => {
+    const { services, cleanUp } = createTree()
+    Object.values(services).forEach((service) => service.handle('vote', () => true))
+
+    const result = await services.root.gather(new RequestMessage('vote', '/'), {
+      quorum: 2,
+      timeoutMs: 1000,
+    })
+
+    expect(result.timedOut).toBe(false)
+    expect(result.responses).toHaveLength(2)
+
+    cleanUp()
+  })
+
+  it('should report errors and the expected messengers that did not respond in time', async () => {
+    const { services, cleanUp } = createTree()
+    services.a.handle('check', () => 'ok')
+    services.x.handle('check', () => {
+      throw new Error('Check failed')
+    })
+
+    const result = await services.root.gather(new RequestMessage('check', '/'), {
+      scope: '/a',
+      expected: ['/a', '/a/x', '/a/y'],
+      timeoutMs: 100,
+    })
+
+    expect(result.timedOut).toBe(true)
+    expect(result.responses).toMatchObject([{ source: '/a', response: { data: 'ok' } }])
+    expect(result.errors).toMatchObject([{ source: '/a/x', error: { message: 'Check failed' } }])
+    expect(result.errors[0].error).toBeInstanceOf(RemoteError)
+    expect(result.missing).toEqual(['/a/y'])
+
+    cleanUp()
+  })
+
+  it('should not leave gathering unhandled when send middleware throws after sending', async () => {
+    const { services, cleanUp } = createTree()
+    const unhandledRejection = jest.fn()
+    process.on('unhandledRejection', unhandledRejection)
+    services.root.use('send', async (context, next) => {
+      await next()
+      throw new Error('Middleware failed')
+    })
+
+    const controller = new AbortController()
+    await expect(
+      services.root.gather(new RequestMessage('slow', '/'), { signal: controller.signal })
+    ).rejects.toThrow('Middleware failed')
+
+    controller.abort()
+    await new Promise((resolve) => setImmediate(resolve))
+
+    expect(unhandledRejection).not.toHaveBeenCalled()
+    process.off('unhandledRejection', unhandledRejection)
+    cleanUp()
+  })
+})
+
+describe('MessagingService.stream', () => {
+  it('should yield the values of an async generator handler as chunks', async () => {
+    const { services, cleanUp } = createChain('/', '/child')
+    const [root, child] = services
+    child.handle('count', async function* (to: number | undefined) {
+      for (let i = 1; i <= to!; i++) {
+        yield i
+      }
+    })
+
+    const chunks: number[] = []
+    for await (const chunk of root.stream<number, number>(
+      new RequestMessage('count', '/child', 3)
+    )) {
+      chunks.push(chunk)
+    }
+
+    expect(chunks).toEqual([1, 2, 3])
+    // Requests that are not streamed get all the values in one response
+    const response = await root.sendMessage(new RequestMessage('count', '/child', 2))
+    expect(response?.data).toEqual([1, 2])
+
+    cleanUp()
+  })
+
+  it('should yield the response of a handler that does not stream as a single chunk', async () => {
+    const { services, cleanUp } = createChain('/', '/child')
+    const [root, child] = services
+    child.handle('greet', (name: string | undefined) => `Hello, ${name}!`)
+
+    const chunks: string[] = []
+    for await (const chunk of root.stream<string, string>(
+      new RequestMessage('greet', '/child', 'stream')
+    )) {
+      chunks.push(chunk)
+    }
+
+    expect(chunks).toEqual(['Hello, stream!'])
+
+    cleanUp()
+  })
+
+  it('should close the handler when the consumer stops iterating', async () => {
+    const { services, cleanUp } = createChain('/', '/child')
+    const [root, child] = services
+    let closed: () => void
+    const handlerClosed = new Promise<void>((resolve) => (closed = resolve))
+    child.handle('ticks', async function* () {
+      try {
+        for (let tick = 0; ; tick++) {
+          yield tick
+          await new Promise((resolve) => setTimeout(resolve, 5))
+        }
+      } finally {
+        closed()
+      }
+    })
+
+    const chunks: number[] = []
+    for await (const chunk of root.stream<undefined, number>(
+      new RequestMessage('ticks', '/child')
+    )) {
+      chunks.push(chunk)
+      if (chunks.length === 2) {
+        break
+      }
+    }
+
+    await expect(handlerClosed).resolves.toBeUndefined()
+    expect(chunks).toEqual([0, 1])
+
+    cleanUp()
+  })
+
+  it('should throw a RemoteError when the handler fails mid-stream', async () => {
+    const { services, cleanUp } = createChain('/', '/child')
+    const [root, child] = services
+    child.handle('parse', async function* () {
+      yield 'header'
+      throw new SyntaxError('Unexpected end of input')
+    })
+
+    const chunks: string[] = []
+    const consume = async () => {
+      for await (const chunk of root.stream<undefined, string>(
+        new RequestMessage('parse', '/child')
+      )) {
+        chunks.push(chunk)
+      }
+    }
+
+    await expect(consume()).rejects.toThrow(RemoteError)
+    expect(chunks).toEqual(['header'])
+
+    cleanUp()
+  })
+
+  function createReorderingWorker(root: MessagingService) {
+    let listener: (message: GeneralMessage<any>) => void
+    const send = jest.fn()
+    root.addWorker('child', {
+      send,
+      onMessage: (callback: (message: GeneralMessage<any>) => void) => {
+        listener = callback
+        return () => {}
+      },
+      close: () => {},
+    })
+
+    // Delivers the responses to the request the worker received, in the given order
+    const respond = async (
+      ...responses: ((request: RequestMessage<any>) => GeneralMessage<any>)[]
+    ) => {
+      await calledTimes(send, 1)
+      const request = send.mock.calls[0][0] as RequestMessage<any>
+      responses.forEach((createResponse) => {
+        const response = createResponse(request)
+        response.source = '/child'
+        listener(response)
+      })
+    }
+
+    return { respond }
+  }
+
+  it('should yield chunks in sequence when the transport reorders them', async () => {
+    const root = MessagingService.create({ messenger: '/' })
+    const { respond } = createReorderingWorker(root)
+
+    const chunks: string[] = []
+    const consume = (async () => {
+      for await (const chunk of root.stream<undefined, string>(
+        new RequestMessage('lines', '/child')
+      )) {
+        chunks.push(chunk)
+      }
+    })()
+
+    await respond(
+      (request) => new StreamEndMessage(request, 3),
+      (request) => new StreamChunkMessage(request, 'third', 2),
+      (request) => new StreamChunkMessage(request, 'first', 0),
+      (request) => new StreamChunkMessage(request, 'second', 1)
+    )
+
+    await consume
+    expect(chunks).toEqual(['first', 'second', 'third'])
+
+    root.cleanUp()
+  })
+
+  it('should time out instead of ending early when a chunk counted by the end is missing', async () => {
+    const root = MessagingService.create({ messenger: '/' })
+    const { respond } = createReorderingWorker(root)
+
+    const chunks: string[] = []
+    const consume = (async () => {
+      for await (const chunk of root.stream<undefined, string>(
+        new RequestMessage('lines', '/child'),
+        { timeoutMs: 50 }
+      )) {
+        chunks.push(chunk)
+      }
+    })()
+
+    await respond(
+      (request) => new StreamEndMessage(request, 2),
+      (request) => new StreamChunkMessage(request, 'first', 0)
+    )
+
+    await expect(consume).rejects.toThrow(RequestTimeoutError)
+    expect(chunks).toEqual(['first'])
+
+    root.cleanUp()
+  })
+})
+
+describe('MessagingService progress', () => {
+  it('should report progress updates to onProgress before the response', async () => {
+    const { port1, port2 } = new MessageChannel()
+    const root = MessagingService.create({ messenger: '/' })
+    const child = MessagingService.create({ messenger: '/child', upstream: port2 })
+    root.addWorker('child', port1)
+
+    child.handle('import', async (rows: number | undefined, message, { progress }) => {
+      progress({ percent: 0, stage: 'reading' })
+      progress({ percent: 50, stage: 'writing', data: { rows: rows! / 2 } })
+      return rows
+    })
+
+    const updates: any[] = []
+    const response = await root.sendMessage(new RequestMessage('import', '/child', 10), {
+      onProgress: (progress, message) =>
+        updates.push({ ...progress, requestId: message.requestId }),
+    })
+
+    expect(response?.data).toBe(10)
+    expect(updates).toEqual([
+      { percent: 0, stage: 'reading', requestId: 'mock-uuid' },
+      { percent: 50, stage: 'writing', data: { rows: 5 }, requestId: 'mock-uuid' },
+    ])
+
+    // Without onProgress, no updates are sent
+    child.resetMetrics()
+    await root.sendMessage(new RequestMessage('import', '/child', 10))
+    expect(child.getMetrics().messages).toContainEqual(
+      expect.objectContaining({ name: 'import', destination: '/', sent: 1 })
+    )
+
+    root.cleanUp()
+    child.cleanUp()
+    port1.close()
+  })
+})
+
+describe('MessagingService cancellation', () => {
+  // Handles `work` without answering, resolving once the handler is called and with the reason its
+  // signal aborted with
+  function handleWork(child: MessagingService) {
+    let started: () => void
+    const handling = new Promise<void>((resolve) => (started = resolve))
+    const aborted = new Promise<any>((resolve) =>
+      child.handle('work', (data, message, { signal }) => {
+        started()
+        signal.addEventListener('abort', () => resolve(signal.reason))
+        return new Promise(() => {})
+      })
+    )
+
+    return { handling, aborted }
+  }
+
+  it("should abort the handler's signal when the caller's signal aborts", async () => {
+    const { services, cleanUp } = createChain('/', '/child')
+    const [root, child] = services
+    const { handling, aborted } = handleWork(child)
+    const controller = new AbortController()
+
+    const response = root.sendMessage(new RequestMessage('work', '/child'), {
+      signal: controller.signal,
+    })
+    await handling
+    controller.abort()
+
+    await expect(response).rejects.toThrow(RequestAbortedError)
+    const reason = await aborted
+    expect(reason).toBeInstanceOf(RequestAbortedError)
+    expect(reason.requestId).toBe('mock-uuid')
+
+    cleanUp()
+  })
+
+  it("should abort the handler's signal when the request times out", async () => {
+    const { services, cleanUp } = createChain('/', '/child')
+    const [root, child] = services
+    const { aborted } = handleWork(child)
+
+    await expect(
+      root.sendMessage(new RequestMessage('work', '/child'), { timeoutMs: 20 })
+    ).rejects.toThrow(RequestTimeoutError)
+    await expect(aborted).resolves.toMatchObject({
+      reason: expect.stringContaining('timed out after 20ms'),
+    })
+
+    cleanUp()
+  })
+
+  it('should abort the handlers of a broadcast request throughout its scope', async () => {
+    // The cancel is a broadcast of its own, so it needs an id other than the request's
+    let sequence = 0
+    jest.mocked(generateUUID).mockImplementation((() => `uuid-${++sequence}`) as any)
+
+    const { services, cleanUp } = createTree()
+    const controller = new AbortController()
+
+    // Resolve once every handler is called, and with the messengers whose handler's signal aborted
+    const handler = jest.fn()
+    const aborted = ['a', 'x'].map(
+      (key) =>
+        new Promise<string>((resolve) =>
+          services[key as 'a' | 'x'].handle('work', (data, message, { signal }) => {
+            handler(key)
+            signal.addEventListener('abort', () => resolve(key))
+            return new Promise(() => {})
+          })
+        )
+    )
+
+    const gathering = services.root.gather(new RequestMessage('work', '/'), {
+      scope: '/a',
+      timeoutMs: 5000,
+      signal: controller.signal,
+    })
+    await calledTimes(handler, 2)
+    controller.abort()
+
+    await expect(gathering).rejects.toThrow(RequestAbortedError)
+    await expect(Promise.all(aborted)).resolves.toEqual(['a', 'x'])
+
+    cleanUp()
+    jest.mocked(generateUUID).mockImplementation((() => 'mock-uuid') as any)
+  })
+
+  it('should not send a request whose signal has already aborted', async () => {
+    const { services, cleanUp } = createChain('/', '/child')
+    const [root, child] = services
+    const handler = jest.fn()
+    child.handle('work', handler)
+    const send = jest.spyOn(root['workers'].get('/child')!, 'send')
+
+    await expect(
+      root.sendMessage(new RequestMessage('work', '/child'), { signal: AbortSignal.abort() })
+    ).rejects.toThrow(RequestAbortedError)
+
+    expect(send).not.toHaveBeenCalled()
+    expect(handler).not.toHaveBeenCalled()
+    expect(root.getMetrics().pendingRequests).toBe(0)
+
+    cleanUp()
+  })
 })
@@ -0,0 +1,189 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { MessageChannel } from 'worker_threads'
+import { GeneralMessage } from '../../src/models/general-message'
+import { RequestMessage } from '../../src/models/request-message'
+import { MessagingService } from '../../src/services'
+import {
+  InMemorySpanExporter,
+  JsonLinesSpanExporter,
+  formatTraceparent,
+  generateSpanId,
+  generateTraceId,
+  parseTraceparent,
+} from '../../src/tracing'
+import { Span } from '../../src/types/span'
+
+function createSpan(spanId: string): Span {
+  return {
+    traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+    spanId,
+    kind: 'send',
+    name: 'greet',
+    messenger: '/',
+    messageId: 'message-id',
+    messageType: 'request',
+    source: '/',
+    destination: '/worker',
+    startTime: 1,
+    endTime: 2,
+  }
+}
+
+// Resolves once the exporter has at least the given number of spans (of a trace, if given)
+function spansExported(
+  exporter: InMemorySpanExporter,
+  count: number,
+  traceId?: string
+): Promise<void> {
+  return new Promise((resolve) => {
+    const check = () =>
+      exporter.getSpans(traceId).length >= count ? resolve() : setImmediate(check)
+    check()
+  })
+}
+
+describe('Trace context', () => {
+  it('should generate W3C trace and span ids', () => {
+    expect(generateTraceId()).toMatch(/^[0-9a-f]{32}$/)
+    expect(generateSpanId()).toMatch(/^[0-9a-f]{16}$/)
+    expect(generateTraceId()).not.toBe(generateTraceId())
+  })
+
+  it('should format and parse traceparent headers', () => {
+    const traceparent = formatTraceparent('4bf92f3577b34da6a3ce929d0e0e4736', '00f067aa0ba902b7')
+
+    expect(traceparent).toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')
+    expect(parseTraceparent(traceparent)).toEqual({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+    })
+    expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeNull()
+    expect(parseTraceparent('not a traceparent')).toBeNull()
+  })
+})
+
+describe('Span exporters', () => {
+  it('should keep spans in memory', () => {
+    const exporter = new InMemorySpanExporter()
+    exporter.export([createSpan('00f067aa0ba902b7')])
+
+    expect(exporter.getSpans()).toHaveLength(1)
+    expect(exporter.getSpans('00000000000000000000000000000001')).toEqual([])
+
+    exporter.reset()
+    expect(exporter.getSpans()).toEqual([])
+  })
+
+  it('should append spans to a file as JSON lines', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'messageworks-'))
+    const path = join(directory, 'spans.jsonl')
+    const exporter = new JsonLinesSpanExporter(path)
+
+    exporter.export([createSpan('00f067aa0ba902b7')])
+    exporter.export([createSpan('b7ad6b7169203331'), createSpan('53995c3f42cd8ad8')])
+    await exporter.shutdown()
+
+    const lines = readFileSync(path, 'utf8').trim().split('\n')
+    expect(lines.map((line) => JSON.parse(line).spanId)).toEqual([
+      '00f067aa0ba902b7',
+      'b7ad6b7169203331',
+      '53995c3f42cd8ad8',
+    ])
+
+    rmSync(directory, { recursive: true })
+  })
+})
+
+describe('MessagingService tracing', () => {
+  it('should record a trace across send, forward and handle spans', async () => {
+    const rootChannel = new MessageChannel()
+    const middleChannel = new MessageChannel()
+    const exporter = new InMemorySpanExporter()
+
+    const root = MessagingService.create({ messenger: '/', spanExporter: exporter })
+    const middle = MessagingService.create({
+      messenger: '/middle',
+      upstream: rootChannel.port2,
+      spanExporter: exporter,
+    })
+    const leaf = MessagingService.create({
+      messenger: '/middle/leaf',
+      upstream: middleChannel.port2,
+      spanExporter: exporter,
+    })
+    root.addWorker('middle', rootChannel.port1)
+    middle.addWorker('leaf', middleChannel.port1)
+
+    leaf.handle('greet', (name: string | undefined) => `Hello, ${name}!`)
+
+    const request = new RequestMessage('greet', '/middle/leaf', 'root')
+    await root.sendMessage(request)
+    await spansExported(exporter, 5, request.traceId)
+
+    const spans = exporter.getSpans(request.traceId)
+    const find = (kind: string, messenger: string, messageType: string) =>
+      spans.find(
+        (span) =>
+          span.kind === kind && span.messenger === messenger && span.messageType === messageType
+      )!
+
+    const send = find('send', '/', 'request')
+    const forward = find('forward', '/middle', 'request')
+    const handle = find('handle', '/middle/leaf', 'request')
+    const respond = find('send', '/middle/leaf', 'response')
+    const forwardResponse = find('forward', '/middle', 'response')
+
+    expect(spans).toHaveLength(5)
+    expect(send.parentSpanId).toBeUndefined()
+    expect(forward.parentSpanId).toBe(send.spanId)
+    expect(handle.parentSpanId).toBe(forward.spanId)
+    expect(respond.parentSpanId).toBe(handle.spanId)
+    expect(forwardResponse.parentSpanId).toBe(respond.spanId)
+    expect(send.endTime).toBeGreaterThanOrEqual(handle.endTime)
+
+    root.cleanUp()
+    middle.cleanUp()
+    leaf.cleanUp()
+    rootChannel.port1.close()
+    middleChannel.port1.close()
+  })
+
+  it('should record failed handlers and keep the trace context of messages without an exporter', async () => {
+    const { port1, port2 } = new MessageChannel()
+    const exporter = new InMemorySpanExporter()
+
+    const root = MessagingService.create({ messenger: '/' })
+    const child = MessagingService.create({
+      messenger: '/child',
+      upstream: port2,
+      spanExporter: exporter,
+    })
+    root.addWorker('child', port1)
+
+    child.handle('fail', () => {
+      throw new RangeError('Out of range')
+    })
+
+    const message = new GeneralMessage('fail', '/child')
+    message.traceId = '4bf92f3577b34da6a3ce929d0e0e4736'
+    message.spanId = '00f067aa0ba902b7'
+    await root.sendMessage(message)
+    await spansExported(exporter, 1)
+
+    expect(message.spanId).toBe('00f067aa0ba902b7')
+    expect(exporter.getSpans()).toEqual([
+      expect.objectContaining({
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        parentSpanId: '00f067aa0ba902b7',
+        kind: 'handle',
+        error: expect.objectContaining({ name: 'RangeError', message: 'Out of range' }),
+      }),
+    ])
+
+    root.cleanUp()
+    child.cleanUp()
+    port1.close()
+  })
+})
@@ -0,0 +1,213 @@
+import { MessageChannel } from 'worker_threads'
+import { GeneralMessage } from '../../src/models/general-message'
+import { RequestMessage } from '../../src/models/request-message'
+import { ResponseMessage } from '../../src/models/response-message'
+import { MessagingService } from '../../src/services'
+import { SharedRingBuffer } from '../../src/transports/shared-ring-buffer'
+import { decodeMessage, encodeMessage } from '../../src/transports/shared-channel-codec'
+import {
+  BufferedTransport,
+  SharedChannelTransport,
+  WorkerThreadsTransport,
+} from '../../src/transports'
+
+function createTransportPair(maxMessageBytes?: number) {
+  const { port1, port2 } = new MessageChannel()
+  const channel = SharedChannelTransport.createChannel({ capacityBytes: 1024, maxMessageBytes })
+
+  const first = new SharedChannelTransport(new WorkerThreadsTransport(port1), channel)
+  const second = new SharedChannelTransport(new WorkerThreadsTransport(port2), {
+    send: channel.receive,
+    receive: channel.send,
+    maxMessageBytes,
+  })
+  first.markOpen()
+  second.markOpen()
+
+  return { first, second, port1 }
+}
+
+describe('SharedRingBuffer', () => {
+  it('should read records in the order they were written, wrapping around the end', () => {
+    const ringBuffer = new SharedRingBuffer(SharedRingBuffer.allocate(32))
+
+    for (let i = 0; i < 10; i++) {
+      expect(ringBuffer.write(new Uint8Array([i, i + 1, i + 2]))).toBe(true)
+      expect(ringBuffer.write(new Uint8Array([i]))).toBe(true)
+      expect(ringBuffer.read()).toEqual(new Uint8Array([i, i + 1, i + 2]))
+      expect(ringBuffer.read()).toEqual(new Uint8Array([i]))
+    }
+
+    expect(ringBuffer.read()).toBeNull()
+  })
+
+  it('should refuse records that do not fit in the free space', () => {
+    const ringBuffer = new SharedRingBuffer(SharedRingBuffer.allocate(32))
+
+    expect(ringBuffer.write(new Uint8Array(ringBuffer.maxRecordBytes + 1))).toBe(false)
+    expect(ringBuffer.write(new Uint8Array(20))).toBe(true)
+    expect(ringBuffer.write(new Uint8Array(20))).toBe(false)
+  })
+})
+
+describe('Shared channel codec', () => {
+  it('should round-trip message envelopes, data and other properties', () => {
+    const request = new RequestMessage('greet', '/worker', { name: 'root', tags: ['a', 'b'] })
+    request.id = 'request-id'
+    request.source = ['root']
+
+    const response = new ResponseMessage('greet', request, 'Hello, root!')
+    response.id = 'response-id'
+
+    expect(decodeMessage(encodeMessage(request)!)).toEqual({ ...request, source: '/root' })
+    expect(decodeMessage(encodeMessage(response)!)).toEqual({
+      ...response,
+      source: '/',
+      destination: '/root',
+    })
+  })
+
+  it('should not encode data that JSON cannot represent', () => {
+    const message = new GeneralMessage('buffer', '/worker', new Uint8Array([1, 2, 3]))
+    message.id = 'message-id'
+
+    expect(encodeMessage(message)).toBeNull()
+  })
+})
+
+describe('SharedChannelTransport', () => {
+  it('should send messages through the ring buffer', async () => {
+    const { first, second, port1 } = createTransportPair()
+    const postMessage = jest.spyOn(port1, 'postMessage')
+
+    const received = new Promise((resolve) => second.onMessage(resolve))
+
+    const message = new GeneralMessage('telemetry', '/worker', { value: 42 })
+    message.id = 'message-id'
+    first.send(message)
+
+    await expect(received).resolves.toMatchObject({ name: 'telemetry', data: { value: 42 } })
+    expect(postMessage).not.toHaveBeenCalled()
+
+    first.close()
+    second.close()
+  })
+
+  it('should fall back to postMessage for oversized messages', async () => {
+    const { first, second, port1 } = createTransportPair(64)
+    const postMessage = jest.spyOn(port1, 'postMessage')
+
+    const received = new Promise((resolve) => second.onMessage(resolve))
+
+    const message = new GeneralMessage('telemetry', '/worker', 'x'.repeat(100))
+    message.id = 'message-id'
+    first.send(message)
+
+    await expect(received).resolves.toMatchObject({ name: 'telemetry', data: 'x'.repeat(100) })
+    expect(postMessage).toHaveBeenCalledTimes(1)
+
+    first.close()
+    second.close()
+  })
+
+  it('should deliver messages in the order they were sent across both paths', async () => {
+    const { first, second } = createTransportPair(512)
+
+    const names: string[] = []
+    const received = new Promise((resolve) =>
+      second.onMessage((message) => {
+        names.push(message.name)
+        if (names.length === 3) {
+          resolve(names)
+        }
+      })
+    )
+
+    const small = new GeneralMessage('small', '/worker')
+    small.id = 'small-id'
+    const large = new GeneralMessage('large', '/worker', 'x'.repeat(1000))
+    large.id = 'large-id'
+    const last = new GeneralMessage('last', '/worker')
+    last.id = 'last-id'
+
+    // The large message goes through postMessage, which delivers it after the ring buffer is read
+    first.send(small)
+    first.send(large)
+    first.send(last)
+
+    await expect(received).resolves.toEqual(['small', 'large', 'last'])
+    expect(large).not.toHaveProperty('channelSequence')
+
+    first.close()
+    second.close()
+  })
+})
+
+describe('MessagingService shared channels', () => {
+  it('should exchange requests and responses with a direct child over a shared channel', async () => {
+    const { port1, port2 } = new MessageChannel()
+
+    const root = MessagingService.create({ messenger: '/' })
+    const child = MessagingService.create({ messenger: '/child', upstream: port2 })
+    root.addWorker('child', port1, { sharedChannel: { capacityBytes: 4096 } })
+
+    child.handle('greet', (name: string | undefined) => `Hello, ${name}!`)
+
+    // Wait for the child to accept the channel before counting postMessage calls
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(child['upstream']).toBeInstanceOf(SharedChannelTransport)
+
+    const rootPostMessage = jest.spyOn(port1, 'postMessage')
+    const childPostMessage = jest.spyOn(port2, 'postMessage')
+
+    const response = await root.sendMessage(new RequestMessage('greet', '/child', 'root'))
+
+    expect(response).toBeInstanceOf(ResponseMessage)
+    expect(response).toMatchObject({ source: '/child', data: 'Hello, root!' })
+    expect(rootPostMessage).not.toHaveBeenCalled()
+    expect(childPostMessage).not.toHaveBeenCalled()
+
+    // clean up ports and channels
+    const rootTransport = root['workers'].get('/child')!
+    root.cleanUp()
+    child.cleanUp()
+    rootTransport.close()
+    child['upstream']!.close()
+  })
+
+  it('should offer the channel once the child is ready and use it after the child accepts it', async () => {
+    const { port1, port2 } = new MessageChannel()
+
+    const root = MessagingService.create({ messenger: '/' })
+    root.addWorker('child', port1, { waitForReady: true, sharedChannel: { capacityBytes: 4096 } })
+
+    const response = root.sendMessage(new RequestMessage('greet', '/child', 'root'))
+    const transport = root['workers'].get('/child') as BufferedTransport
+    const sharedChannelTransport = transport['transport'] as SharedChannelTransport
+
+    // The offer and the request wait for the child, and nothing is written to the ring buffer yet
+    expect(transport.queueLength).toBe(2)
+    expect(sharedChannelTransport.isOpen).toBe(false)
+
+    const child = MessagingService.create({ messenger: '/child', upstream: port2 })
+    child.handle('greet', (name: string | undefined) => `Hello, ${name}!`)
+
+    await expect(response).resolves.toMatchObject({ data: 'Hello, root!' })
+    await new Promise((resolve) => setTimeout(resolve, 50))
+
+    expect(child['upstream']).toBeInstanceOf(SharedChannelTransport)
+    expect(sharedChannelTransport.isOpen).toBe(true)
+
+    const rootPostMessage = jest.spyOn(port1, 'postMessage')
+    await expect(
+      root.sendMessage(new RequestMessage('greet', '/child', 'again'))
+    ).resolves.toMatchObject({ data: 'Hello, again!' })
+    expect(rootPostMessage).not.toHaveBeenCalled()
+
+    // clean up ports and channels
+    root.cleanUp()
+    child.cleanUp()
+    transport.close()
+    child['upstream']!.close()
+  })
+})
@@ -0,0 +1,259 @@
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Server, createConnection, createServer } from 'net'
+import { MessagingService } from '../../src/services'
+import { GeneralMessage } from '../../src/models/general-message'
+import { RequestMessage } from '../../src/models/request-message'
+import { SocketTransport, SocketTransportOptions } from '../../src/transports'
+import { FrameDecoder, encodeFrame } from '../../src/transports/socket-framing'
+import { WorkerCrashedError } from '../../src/errors'
+
+describe('Socket Transport', () => {
+  describe('FrameDecoder', () => {
+    it('should decode frames split across chunks', () => {
+      const frame = encodeFrame(new GeneralMessage('split', '/remote', { text: 'héllo' }))
+      const decoder = new FrameDecoder()
+
+      expect(decoder.push(frame.subarray(0, 2))).toEqual({ messages: [] })
+      expect(decoder.push(frame.subarray(2, 9))).toEqual({ messages: [] })
+      expect(decoder.push(frame.subarray(9))).toEqual({
+        messages: [expect.objectContaining({ name: 'split', data: { text: 'héllo' } })],
+      })
+    })
+
+    it('should decode several frames from a single chunk', () => {
+      const decoder = new FrameDecoder()
+      const chunk = Buffer.concat([
+        encodeFrame(new GeneralMessage('first', '/remote')),
+        encodeFrame(new GeneralMessage('second', '/remote')),
+      ])
+
+      expect(decoder.push(chunk).messages.map((message) => message.name)).toEqual([
+        'first',
+        'second',
+      ])
+    })
+
+    it('should reject frames larger than the maximum as soon as their length is read', () => {
+      const frame = encodeFrame(new GeneralMessage('large', '/remote', 'x'.repeat(100)))
+      const decoder = new FrameDecoder(64)
+
+      expect(decoder.push(frame.subarray(0, 4)).error?.message).toMatch(
+        'exceeds the maximum of 64 bytes'
+      )
+    })
+
+    it('should reject frames that are not valid JSON', () => {
+      const header = Buffer.alloc(4)
+      header.writeUInt32BE(3, 0)
+
+      const { error } = new FrameDecoder().push(Buffer.concat([header, Buffer.from('{no')]))
+
+      expect(error).toBeInstanceOf(SyntaxError)
+    })
+
+    it('should return the frames decoded before a bad frame along with the error', () => {
+      const decoder = new FrameDecoder(512)
+      const chunk = Buffer.concat([
+        encodeFrame(new GeneralMessage('good', '/remote')),
+        encodeFrame(new GeneralMessage('large', '/remote', 'x'.repeat(1000))),
+      ])
+
+      const { messages, error } = decoder.push(chunk)
+
+      expect(messages.map((message) => message.name)).toEqual(['good'])
+      expect(error?.message).toMatch('exceeds the maximum of 512 bytes')
+    })
+  })
+
+  describe('SocketTransport', () => {
+    const socketPath = join(tmpdir(), `messageworks-${process.pid}-transport.sock`)
+
+    async function connectToServer(options: SocketTransportOptions, frame: Buffer) {
+      const closed = new Promise<void>((resolve) => {
+        server = createServer((socket) => {
+          socket.on('close', () => resolve())
+          socket.write(frame)
+        })
+      })
+      await new Promise<void>((resolve) => server.listen(socketPath, resolve))
+
+      const transport = new SocketTransport(() => createConnection(socketPath), {
+        reconnect: false,
+        ...options,
+      })
+      const listener = jest.fn()
+      transport.onMessage(listener)
+
+      return { transport, listener, closed }
+    }
+
+    let server: Server
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve))
+    })
+
+    it('should close the connection when a frame is not valid JSON', async () => {
+      const header = Buffer.alloc(4)
+      header.writeUInt32BE(3, 0)
+
+      const { listener, closed } = await connectToServer(
+        {},
+        Buffer.concat([header, Buffer.from('{no')])
+      )
+
+      await closed
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('should close the connection when a frame is larger than maxFrameBytes', async () => {
+      const frame = encodeFrame(new GeneralMessage('large', '/remote', 'x'.repeat(100)))
+
+      const { listener, closed } = await connectToServer({ maxFrameBytes: 64 }, frame)
+
+      await closed
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('should deliver the frames that arrived before a bad frame', async () => {
+      const header = Buffer.alloc(4)
+      header.writeUInt32BE(3, 0)
+      const chunk = Buffer.concat([
+        encodeFrame(new GeneralMessage('good', '/remote')),
+        header,
+        Buffer.from('{no'),
+      ])
+
+      const { listener, closed } = await connectToServer({}, chunk)
+
+      await closed
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ name: 'good' }))
+    })
+
+    it('should report an exit once the connection is closed for good', async () => {
+      const frame = encodeFrame(new GeneralMessage('bye', '/remote'))
+      const { transport, closed } = await connectToServer({}, frame)
+      const exited = new Promise((resolve) => transport.onEvent(resolve))
+      await new Promise((resolve) => transport['socket']!.once('connect', resolve))
+
+      // Drop the connection, which is not re-established with reconnect disabled
+      transport['socket']!.end()
+      await closed
+
+      await expect(exited).resolves.toMatchObject({ type: 'exit', error: expect.any(Error) })
+      expect(() => transport.send(new GeneralMessage('late', '/remote'))).toThrow()
+    })
+
+    it('should throw instead of queueing more than maxQueueLength messages', async () => {
+      const frame = encodeFrame(new GeneralMessage('hello', '/remote'))
+      const { transport, closed } = await connectToServer({ maxQueueLength: 2 }, frame)
+
+      // The connection is still being established, so messages are queued
+      transport.send(new GeneralMessage('first', '/remote'))
+      transport.send(new GeneralMessage('second', '/remote'))
+      expect(() => transport.send(new GeneralMessage('third', '/remote'))).toThrow(
+        'Unable to queue message "third"'
+      )
+      expect(transport.queueLength).toBe(2)
+
+      transport.close()
+      await closed
+    })
+  })
+
+  describe('MessagingService.addRemote', () => {
+    let server: Server
+    let root: MessagingService
+    let remote: MessagingService
+
+    const socketPath = join(tmpdir(), `messageworks-${process.pid}.sock`)
+
+    beforeEach(async () => {
+      root = MessagingService.create({ messenger: '/' })
+      remote = MessagingService.create({ messenger: '/remote' })
+      remote.handle('ping', (data: string | undefined) => `pong: ${data}`)
+
+      server = await remote.acceptUpstream(socketPath)
+      await root.addRemote('remote', socketPath, { reconnectDelayMs: 10 })
+    })
+
+    afterEach(async () => {
+      root.removeRemote('remote')
+      remote.cleanUp()
+      await new Promise((resolve) => server.close(resolve))
+    })
+
+    it('should route requests to a remote service over a Unix domain socket', async () => {
+      const response = await root.sendMessage(new RequestMessage('ping', '/remote', 'socket'), {
+        timeoutMs: 5000,
+      })
+
+      expect(response).toMatchObject({ source: '/remote', destination: '/', data: 'pong: socket' })
+    })
+
+    it('should reject pending requests once the connection is lost for good', async () => {
+      root.removeRemote('remote')
+      await root.addRemote('remote', socketPath, { reconnect: false })
+
+      let handling: () => void
+      const handled = new Promise<void>((resolve) => (handling = resolve))
+      remote.handle('hang', () => {
+        handling()
+        return new Promise(() => {})
+      })
+
+      const response = root.sendMessage(new RequestMessage('hang', '/remote'), { timeoutMs: 5000 })
+      await handled
+      remote['upstream']!.close()
+
+      await expect(response).rejects.toThrow(WorkerCrashedError)
+      expect(root['workers'].has('/remote')).toBe(false)
+    })
+
+    it('should fail requests sent over a closed connection instead of queueing them', async () => {
+      root['workers'].get('/remote')!.close()
+      const deadLetter = new Promise<any>((resolve) => root.events.on('dead-letter', resolve))
+
+      await expect(
+        root.sendMessage(new RequestMessage('ping', '/remote', 'closed'), { timeoutMs: 5000 })
+      ).rejects.toThrow('Unable to send message "ping".')
+
+      await expect(deadLetter).resolves.toMatchObject({ reason: 'no-route' })
+      expect(root.getMetrics().pendingRequests).toBe(0)
+    })
+
+    it('should reconnect after the connection is lost', async () => {
+      await root.sendMessage(new RequestMessage('ping', '/remote', 'first'), { timeoutMs: 5000 })
+
+      // Drop the remote's end of the connection and wait for the root to connect again
+      const upstream = remote['upstream']!
+      const reconnected = new Promise<void>((resolve) => server.once('connection', () => resolve()))
+      upstream.close()
+      await reconnected
+
+      const response = await root.sendMessage(new RequestMessage('ping', '/remote', 'second'), {
+        timeoutMs: 5000,
+      })
+
+      expect(response).toMatchObject({ data: 'pong: second' })
+    })
+
+    it('should close the previous upstream connection when a new one is accepted', async () => {
+      await root.sendMessage(new RequestMessage('ping', '/remote', 'first'), { timeoutMs: 5000 })
+
+      const previous = remote['upstream']!
+      const close = jest.spyOn(previous, 'close')
+
+      const connected = new Promise<void>((resolve) => server.once('connection', () => resolve()))
+      const socket = createConnection(socketPath)
+      await connected
+
+      expect(close).toHaveBeenCalled()
+      expect(remote['upstream']).not.toBe(previous)
+
+      socket.destroy()
+    })
+  })
+})
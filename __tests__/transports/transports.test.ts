@@ -0,0 +1,158 @@
+import { EventEmitter } from 'events'
+import { fork } from 'child_process'
+import { MessageChannel } from 'worker_threads'
+import { GeneralMessage } from '../../src/models/general-message'
+import {
+  ChildProcessTransport,
+  MessagePortTransport,
+  WebWorkerTransport,
+  WorkerThreadsTransport,
+  isTransport,
+  toTransport,
+} from '../../src/transports'
+import { TransportTarget } from '../../src/types/transport-target'
+
+// Minimal EventTarget-style endpoint that echoes posted messages back to its listeners
+class EventTargetEndpoint extends EventTarget {
+  postMessage(message: any) {
+    this.dispatchEvent(new MessageEvent('message', { data: message }))
+  }
+}
+
+describe('Transports', () => {
+  describe('toTransport', () => {
+    it('should return a transport as is', () => {
+      const { port1, port2 } = new MessageChannel()
+      const transport = new MessagePortTransport(port1 as unknown as MessagePort)
+
+      expect(isTransport(transport)).toBe(true)
+      expect(toTransport(transport)).toBe(transport)
+
+      port1.close()
+      port2.close()
+    })
+
+    it('should wrap EventEmitter-style endpoints in a WorkerThreadsTransport', () => {
+      const { port1, port2 } = new MessageChannel()
+
+      expect(toTransport(port1)).toBeInstanceOf(WorkerThreadsTransport)
+
+      port1.close()
+      port2.close()
+    })
+
+    it('should wrap EventTarget-style endpoints in a WebWorkerTransport', () => {
+      expect(toTransport(new EventTargetEndpoint() as unknown as Worker)).toBeInstanceOf(
+        WebWorkerTransport
+      )
+    })
+
+    it('should wrap IPC endpoints in a ChildProcessTransport', () => {
+      const child = Object.assign(new EventEmitter(), { send: jest.fn(() => true) })
+
+      expect(toTransport(child)).toBeInstanceOf(ChildProcessTransport)
+    })
+
+    it('should throw for objects that cannot send messages', () => {
+      expect(() => toTransport({} as TransportTarget)).toThrow()
+      expect(() => toTransport(null as unknown as TransportTarget)).toThrow()
+    })
+  })
+
+  describe('MessagePortTransport', () => {
+    it('should send and receive messages through a MessageChannel', async () => {
+      const { port1, port2 } = new MessageChannel()
+      const left = new MessagePortTransport(port1 as unknown as MessagePort)
+      const right = new MessagePortTransport(port2 as unknown as MessagePort)
+
+      const received = new Promise<GeneralMessage<any>>((resolve) => right.onMessage(resolve))
+
+      left.send(new GeneralMessage('ping', '/right', { value: 1 }))
+
+      await expect(received).resolves.toMatchObject({ name: 'ping', data: { value: 1 } })
+
+      left.close()
+      right.close()
+    })
+
+    it('should stop delivering messages after the listener is removed', async () => {
+      const { port1, port2 } = new MessageChannel()
+      const left = new MessagePortTransport(port1 as unknown as MessagePort)
+      const right = new MessagePortTransport(port2 as unknown as MessagePort)
+
+      const removedListener = jest.fn()
+      const removeListener = right.onMessage(removedListener)
+      removeListener()
+
+      const received = new Promise<GeneralMessage<any>>((resolve) => right.onMessage(resolve))
+
+      left.send(new GeneralMessage('ping', '/right'))
+      await received
+
+      expect(removedListener).not.toHaveBeenCalled()
+
+      left.close()
+      right.close()
+    })
+  })
+
+  describe('ChildProcessTransport', () => {
+    it('should send through and receive from the IPC channel', () => {
+      const child = Object.assign(new EventEmitter(), {
+        send: jest.fn(() => true),
+        disconnect: jest.fn(),
+        connected: true,
+      })
+      const transport = new ChildProcessTransport(child)
+
+      const listener = jest.fn()
+      transport.onMessage(listener)
+
+      const message = new GeneralMessage('ping', '/child')
+      transport.send(message)
+      child.emit('message', { name: 'pong' })
+      transport.close()
+      child.emit('message', { name: 'ignored' })
+
+      expect(child.send).toHaveBeenCalledWith(message)
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith({ name: 'pong' })
+      expect(child.disconnect).toHaveBeenCalled()
+    })
+
+    it('should throw without an IPC channel', () => {
+      expect(() => new ChildProcessTransport(new EventEmitter())).toThrow()
+    })
+
+    it('should throw instead of emitting an error when sending after the channel disconnected', async () => {
+      const child = fork('./__mocks__/response-child-process.js')
+      const exited = new Promise((resolve) => child.once('exit', resolve))
+      const transport = new ChildProcessTransport(child)
+
+      const errorListener = jest.fn()
+      child.on('error', errorListener)
+      child.disconnect()
+
+      expect(() => transport.send(new GeneralMessage('ping', '/child'))).toThrow(/disconnected/)
+
+      await exited
+      expect(errorListener).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('WebWorkerTransport', () => {
+    it('should unwrap message events', () => {
+      const worker = new EventTargetEndpoint()
+      const transport = new WebWorkerTransport(worker as unknown as Worker)
+
+      const listener = jest.fn()
+      transport.onMessage(listener)
+
+      worker.postMessage(new GeneralMessage('ping', '/worker'))
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ name: 'ping' }))
+
+      transport.close()
+    })
+  })
+})
@@ -0,0 +1,269 @@
+import { MessageChannel } from 'worker_threads'
+import { MessagingService } from '../../src/services'
+import { GeneralMessage } from '../../src/models/general-message'
+import { RequestMessage } from '../../src/models/request-message'
+import { ResponseMessage } from '../../src/models/response-message'
+import { StreamEndMessage } from '../../src/models/stream-end-message'
+import { CancelMessage } from '../../src/models/cancel-message'
+import { WorkerPool } from '../../src/transports'
+import { Transport } from '../../src/types/transport'
+import { TransportEvent } from '../../src/types/transport-event'
+import { WorkerCrashedError } from '../../src/errors'
+
+// Transport that records sent messages and lets the test reply as the member
+class MemberTransportMock implements Transport {
+  public sent: GeneralMessage<any>[] = []
+  public closed: boolean = false
+  private listener: (message: GeneralMessage<any>) => void = () => {}
+  private eventListener: (event: TransportEvent) => void = () => {}
+
+  send(message: GeneralMessage<any>) {
+    this.sent.push(message)
+  }
+
+  onMessage(listener: (message: GeneralMessage<any>) => void) {
+    this.listener = listener
+    return () => {}
+  }
+
+  onEvent(listener: (event: TransportEvent) => void) {
+    this.eventListener = listener
+    return () => {}
+  }
+
+  close() {
+    this.closed = true
+  }
+
+  reply(request: GeneralMessage<any>) {
+    this.listener(new ResponseMessage(request.name, request as RequestMessage<any>))
+  }
+
+  crash() {
+    this.eventListener({ type: 'error', error: new Error('boom') })
+    this.eventListener({ type: 'exit', exitCode: 1 })
+  }
+}
+
+function request(id: string): RequestMessage<any> {
+  const message = new RequestMessage('work', '/pool')
+  message.id = id
+  return message
+}
+
+describe('WorkerPool', () => {
+  let members: MemberTransportMock[]
+  const factory = jest.fn((messenger: string, index: number) => {
+    const member = new MemberTransportMock()
+    members.push(member)
+    return member
+  })
+
+  beforeEach(() => {
+    members = []
+    factory.mockClear()
+  })
+
+  it('should create members with the pool messenger', () => {
+    new WorkerPool(['pool'], factory, { size: 2 })
+
+    expect(factory.mock.calls).toEqual([
+      ['/pool', 0],
+      ['/pool', 1],
+    ])
+  })
+
+  it('should balance messages round-robin', () => {
+    const pool = new WorkerPool('/pool', factory, { size: 3 })
+
+    ;['a', 'b', 'c', 'd'].forEach((id) => pool.send(request(id)))
+
+    expect(members.map((member) => member.sent.map((message) => message.id))).toEqual([
+      ['a', 'd'],
+      ['b'],
+      ['c'],
+    ])
+  })
+
+  it('should send to the member with the least outstanding requests', () => {
+    const pool = new WorkerPool('/pool', factory, {
+      size: 2,
+      strategy: 'least-outstanding-requests',
+    })
+
+    pool.send(request('a'))
+    pool.send(request('b'))
+    members[0].reply(members[0].sent[0])
+    pool.send(request('c'))
+
+    expect(members[0].sent.map((message) => message.id)).toEqual(['a', 'c'])
+    expect(members[1].sent.map((message) => message.id)).toEqual(['b'])
+  })
+
+  it('should broadcast to every member', () => {
+    const pool = new WorkerPool('/pool', factory, { size: 2 })
+    const message = new GeneralMessage('announce', '/pool')
+    message.broadcast = true
+
+    pool.send(message)
+
+    expect(members.every((member) => member.sent.length === 1)).toBe(true)
+  })
+
+  it('should resize and close removed members once their requests are answered', () => {
+    const pool = new WorkerPool('/pool', factory, { size: 2 })
+
+    pool.send(request('a'))
+    pool.send(request('b'))
+    pool.resize(1)
+
+    expect(pool.size).toBe(1)
+    expect(members[1].closed).toBe(false)
+
+    members[1].reply(members[1].sent[0])
+    expect(members[1].closed).toBe(true)
+
+    pool.resize(3)
+    expect(pool.size).toBe(3)
+    expect(factory.mock.calls.map(([, index]) => index)).toEqual([0, 1, 2, 3])
+  })
+
+  it('should route cancels to the member handling the request and settle the request', () => {
+    const pool = new WorkerPool('/pool', factory, { size: 2 })
+
+    const a = request('a')
+    pool.send(a)
+    pool.send(request('b'))
+    expect(pool.queueLength).toBe(2)
+
+    pool.send(new CancelMessage(a))
+
+    expect(members[0].sent.map((message) => message.type)).toEqual(['request', 'cancel'])
+    expect(members[1].sent).toHaveLength(1)
+    expect(pool.queueLength).toBe(1)
+  })
+
+  it('should settle streamed requests when their stream ends', () => {
+    const pool = new WorkerPool('/pool', factory, { size: 1 })
+
+    const a = request('a')
+    pool.send(a)
+    pool.resize(0)
+    expect(members[0].closed).toBe(false)
+
+    members[0]['listener'](new StreamEndMessage(a, 3))
+
+    expect(pool.queueLength).toBe(0)
+    expect(members[0].closed).toBe(true)
+  })
+
+  it('should remove a crashed member and report the requests it was handling', () => {
+    const pool = new WorkerPool('/pool', factory, { size: 2 })
+    const events: TransportEvent[] = []
+    pool.onEvent((event) => events.push(event))
+
+    pool.send(request('a'))
+    pool.send(request('b'))
+    members[0].crash()
+
+    expect(events).toEqual([{ type: 'error', error: new Error('boom'), requestIds: ['a'] }])
+    expect(members[0].closed).toBe(true)
+    expect(pool.size).toBe(1)
+    expect(pool.queueLength).toBe(1)
+
+    pool.send(request('c'))
+    expect(members[1].sent.map((message) => message.id)).toEqual(['b', 'c'])
+  })
+
+  it('should reject the requests of a crashed member and replace it', async () => {
+    const root = MessagingService.create()
+    const pool = root.addWorkerPool('pool', factory, {
+      size: 2,
+      restartPolicy: { backoffMs: 0 },
+    })
+    const crashed = new Promise<any>((resolve) => root.events.on('worker-crashed', resolve))
+    const restarted = new Promise<any>((resolve) => root.events.on('worker-restarted', resolve))
+
+    const first = root.sendMessage(new RequestMessage('work', '/pool'))
+    const second = root.sendMessage(new RequestMessage('work', '/pool'))
+    members[0].crash()
+
+    await expect(first).rejects.toThrow(WorkerCrashedError)
+    await expect(crashed).resolves.toMatchObject({ worker: '/pool', willRestart: true })
+    await expect(restarted).resolves.toEqual({ worker: '/pool', restarts: 1 })
+    expect(pool.size).toBe(2)
+    expect(root.getMetrics().pendingRequests).toBe(1)
+
+    members[1].reply(members[1].sent[0])
+    await expect(second).resolves.toMatchObject({ type: 'response' })
+    root.cleanUp()
+  })
+
+  it('should reject the requests of a crashed member that was being removed without replacing it', async () => {
+    const root = MessagingService.create()
+    const pool = root.addWorkerPool('pool', factory, {
+      size: 2,
+      restartPolicy: { backoffMs: 0 },
+    })
+    const crashed = new Promise<any>((resolve) => root.events.on('worker-crashed', resolve))
+
+    const first = root.sendMessage(new RequestMessage('work', '/pool'))
+    const draining = root.sendMessage(new RequestMessage('work', '/pool'))
+    pool.resize(1)
+    members[1].crash()
+
+    await expect(draining).rejects.toThrow(WorkerCrashedError)
+    await expect(crashed).resolves.toMatchObject({ worker: '/pool', willRestart: false })
+    expect(root['workerSupervisors'].get('/pool')!.restartTimeout).toBeUndefined()
+    expect(pool.size).toBe(1)
+    expect(factory).toHaveBeenCalledTimes(2)
+
+    members[0].reply(members[0].sent[0])
+    await expect(first).resolves.toMatchObject({ type: 'response' })
+    root.cleanUp()
+  })
+
+  it('should serve requests addressed to the pool from a MessagingService', async () => {
+    const root = MessagingService.create()
+    const ports: MessagePort[] = []
+
+    root.addWorkerPool(
+      'pool',
+      (messenger, index) => {
+        const { port1, port2 } = new MessageChannel()
+        const member = MessagingService.create({ messenger, upstream: port2 })
+        member.handle('whoami', () => index)
+        ports.push(port1 as unknown as MessagePort, port2 as unknown as MessagePort)
+        return port1
+      },
+      { size: 2 }
+    )
+
+    const first = await root.sendMessage(new RequestMessage('whoami', '/pool'))
+    const second = await root.sendMessage(new RequestMessage('whoami', '/pool'))
+
+    expect([first?.data, second?.data]).toEqual([0, 1])
+
+    root.resizeWorkerPool('pool', 1)
+    expect(root['workers'].get('/pool')).toMatchObject({ size: 1 })
+
+    // clean up ports
+    root.cleanUp()
+    ports.forEach((port) => port.close())
+  })
+
+  it('should reject requests to an empty pool without leaving them pending', async () => {
+    const root = MessagingService.create()
+    root.addWorkerPool('pool', factory, { size: 1 })
+    root.resizeWorkerPool('pool', 0)
+    const deadLetter = new Promise<any>((resolve) => root.events.on('dead-letter', resolve))
+
+    await expect(root.sendMessage(new RequestMessage('work', '/pool'))).rejects.toThrow(
+      'Unable to send message "work".'
+    )
+
+    await expect(deadLetter).resolves.toMatchObject({ reason: 'no-route' })
+    expect(root.getMetrics().pendingRequests).toBe(0)
+    root.cleanUp()
+  })
+})
@@ -0,0 +1,88 @@
+import {
+  registerMessageType,
+  unregisterMessageType,
+  reviveMessage,
+} from '../../src/utils/message-registry'
+import { GeneralMessage } from '../../src/models/general-message'
+import { RequestMessage } from '../../src/models/request-message'
+import { ResponseMessage } from '../../src/models/response-message'
+import { ErrorResponseMessage } from '../../src/models/error-response-message'
+import { ConcreteRequestMessageMock } from '../../__mocks__/concrete-request-message-mock'
+
+class Point {
+  constructor(
+    public x: number,
+    public y: number
+  ) {}
+
+  length(): number {
+    return Math.hypot(this.x, this.y)
+  }
+}
+
+class MoveMessage extends GeneralMessage<{ to: Point }> {
+  describe(): string {
+    return `move to ${this.data?.to.x},${this.data?.to.y}`
+  }
+}
+
+/**
+ * Simulate the structured cloning done by `postMessage()`, which strips prototypes.
+ */
+function clone<T>(message: T): T {
+  return structuredClone(message)
+}
+
+describe('Message Registry', () => {
+  afterEach(() => {
+    unregisterMessageType('move')
+    unregisterMessageType('concrete-request-message-mock')
+  })
+
+  it('should revive messages into the built-in class for their type', () => {
+    const request = new RequestMessage('greet', '/worker', 'data')
+    const response = new ResponseMessage('greet', request, 'data')
+    const error = new ErrorResponseMessage(request, new Error('failed'))
+
+    expect(reviveMessage(clone(new GeneralMessage('note', '/')))).toBeInstanceOf(GeneralMessage)
+    expect(reviveMessage(clone(request))).toBeInstanceOf(RequestMessage)
+    expect(reviveMessage(clone(response))).toBeInstanceOf(ResponseMessage)
+    expect(reviveMessage(clone(error))).toBeInstanceOf(ErrorResponseMessage)
+  })
+
+  it('should revive messages into their registered class and revive their data', () => {
+    registerMessageType('move', MoveMessage, {
+      reviveData: (data) => ({ to: new Point(data.to.x, data.to.y) }),
+    })
+
+    const message = reviveMessage(clone(new MoveMessage('move', '/', { to: new Point(3, 4) })))
+
+    expect(message).toBeInstanceOf(MoveMessage)
+    expect((message as MoveMessage).describe()).toBe('move to 3,4')
+    expect(message.data?.to).toBeInstanceOf(Point)
+    expect(message.data?.to.length()).toBe(5)
+  })
+
+  it('should only use a registered class for messages of its type', () => {
+    registerMessageType('concrete-request-message-mock', ConcreteRequestMessageMock)
+
+    const request = new ConcreteRequestMessageMock('/worker')
+    const response = new ResponseMessage(request.name, request)
+
+    expect(reviveMessage(clone(request))).toBeInstanceOf(ConcreteRequestMessageMock)
+
+    const revivedResponse = reviveMessage(clone(response))
+    expect(revivedResponse).toBeInstanceOf(ResponseMessage)
+    expect(revivedResponse).not.toBeInstanceOf(RequestMessage)
+  })
+
+  it('should stop reviving into a class once it is unregistered', () => {
+    registerMessageType('move', MoveMessage)
+    unregisterMessageType('move')
+
+    const message = reviveMessage(clone(new MoveMessage('move', '/')))
+
+    expect(message).toBeInstanceOf(GeneralMessage)
+    expect(message).not.toBeInstanceOf(MoveMessage)
+  })
+})
@@ -4,6 +4,7 @@ import {
   normalizeMessenger,
   messengersAreEqual,
   messengerIsUpstream,
+  messengerIsWithin,
 } from '../../src/utils/messenger-utils'
 import { Messenger } from '../../src/types/messenger'
 
@@ -181,4 +182,18 @@ describe('Messenger Utils', () => {
       expect(messengerIsUpstream(here, there)).toBe(false)
     })
   })
+
+  describe('isWithin', () => {
+    it('should return true for the root of the subtree and its descendants', () => {
+      expect(messengerIsWithin('/workflow1', '/workflow1')).toBe(true)
+      expect(messengerIsWithin(['workflow1', 'step1'], '/workflow1')).toBe(true)
+      expect(messengerIsWithin('/workflow1', '/')).toBe(true)
+    })
+
+    it('should return false for ancestors and other branches', () => {
+      expect(messengerIsWithin('/', '/workflow1')).toBe(false)
+      expect(messengerIsWithin('/workflow2/step1', '/workflow1')).toBe(false)
+      expect(messengerIsWithin('/workflow10', '/workflow1')).toBe(false)
+    })
+  })
 })
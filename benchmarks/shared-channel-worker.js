@@ -0,0 +1,14 @@
+import { GeneralMessage, MessagingService } from '../dist/bundle.esm.js'
+
+const messagingService = await MessagingService.getInstance()
+
+let received = 0
+
+messagingService.handle('telemetry', (data) => {
+  received++
+
+  if (received === data.total) {
+    received = 0
+    messagingService.sendMessage(new GeneralMessage('done', '/'))
+  }
+})
@@ -0,0 +1,71 @@
+/**
+ * Compares the throughput of telemetry-style messages from the main thread to a worker over
+ * `postMessage()` and over a shared memory channel.
+ *
+ * Run with `npm run bench`, which builds the bundle first. The shared channel gains the most when the
+ * main thread and the worker run on separate cores, so the number of available cores is reported too.
+ */
+import { availableParallelism } from 'os'
+import { Worker } from 'worker_threads'
+import { GeneralMessage, MessagingService } from '../dist/bundle.esm.js'
+
+const MESSAGES = 100000
+const BATCH_SIZE = 1000
+const ROUNDS = 3
+
+async function measure(name, options) {
+  const messagingService = MessagingService.create()
+  const worker = new Worker(new URL('./shared-channel-worker.js', import.meta.url), {
+    workerData: { name: `/${name}` },
+  })
+
+  messagingService.addWorker(name, worker, { waitForReady: true, ...options })
+  await messagingService.whenReady(`/${name}`)
+
+  const timings = []
+
+  for (let round = 0; round < ROUNDS; round++) {
+    const done = new Promise((resolve) => messagingService.handle('done', resolve))
+    const start = performance.now()
+
+    for (let sent = 0; sent < MESSAGES; sent += BATCH_SIZE) {
+      for (let i = 0; i < BATCH_SIZE; i++) {
+        messagingService.sendMessage(
+          new GeneralMessage('telemetry', `/${name}`, {
+            total: MESSAGES,
+            sensor: 'cpu',
+            value: Math.random(),
+            timestamp: Date.now(),
+          })
+        )
+      }
+
+      // Let the worker catch up between batches, as a producer sampling at a steady rate would
+      await new Promise((resolve) => setImmediate(resolve))
+    }
+
+    await done
+    timings.push(performance.now() - start)
+  }
+
+  messagingService.cleanUp()
+  await worker.terminate()
+
+  const best = Math.min(...timings)
+  console.log(
+    `${name.padEnd(16)} ${best.toFixed(0).padStart(6)} ms  ${Math.round(
+      (MESSAGES / best) * 1000
+    ).toLocaleString()} messages/s`
+  )
+
+  return best
+}
+
+console.log(
+  `Sending ${MESSAGES.toLocaleString()} messages to a worker (best of ${ROUNDS} rounds, ${availableParallelism()} cores)`
+)
+
+const postMessageTime = await measure('post-message', {})
+const sharedChannelTime = await measure('shared-channel', { sharedChannel: {} })
+
+console.log(`Shared channel speedup: ${(postMessageTime / sharedChannelTime).toFixed(2)}x`)
@@ -30,7 +30,7 @@ const config = [
         },
       },
     ],
-    external: ['uuid', 'worker_threads'],
+    external: ['uuid', 'worker_threads', 'net', 'fs/promises'],
     plugins: [resolve(), commonjs(), typescript({ tsconfig: './tsconfig.json' })],
   },
 
@@ -0,0 +1,4 @@
+export { RemoteError } from './remote-error'
+export { RequestAbortedError } from './request-aborted-error'
+export { RequestTimeoutError } from './request-timeout-error'
+export { WorkerCrashedError } from './worker-crashed-error'
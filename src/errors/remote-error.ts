@@ -0,0 +1,56 @@
+import { Messenger } from '../types/messenger'
+import { SerializedError } from '../types/serialized-error'
+
+/**
+ * Represents an error that was thrown by a remote messenger while handling a request.
+ * The promise returned by `MessagingService.sendMessage()` rejects with this error when the
+ * request is answered with an `ErrorResponseMessage`.
+ */
+export class RemoteError extends Error {
+  /**
+   * The name of the error as it was thrown on the remote side (e.g. `TypeError`).
+   * @type {string}
+   */
+  public remoteName: string
+
+  /**
+   * The stack trace of the error as it was captured on the remote side, if available.
+   * @type {string | undefined}
+   */
+  public remoteStack?: string
+
+  /**
+   * The error code as it was set on the remote side (e.g. `ENOENT`), if available.
+   * @type {string | number | undefined}
+   */
+  public code?: string | number
+
+  /**
+   * The messenger that reported the error.
+   * @type {Messenger}
+   */
+  public source: Messenger
+
+  /**
+   * The ID of the request that failed.
+   * @type {any}
+   */
+  public requestId: any
+
+  /**
+   * Creates an instance of the RemoteError.
+   *
+   * @param error The serialized error received from the remote messenger.
+   * @param source The messenger that reported the error.
+   * @param requestId The ID of the request that failed.
+   */
+  constructor(error: SerializedError, source: Messenger, requestId: any) {
+    super(error.message)
+    this.name = 'RemoteError'
+    this.remoteName = error.name
+    this.remoteStack = error.stack
+    this.code = error.code
+    this.source = source
+    this.requestId = requestId
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Represents the failure of a request that was abandoned before a response arrived.
+ * The promise returned by `MessagingService.sendMessage()` rejects with this error when the
+ * caller's `AbortSignal` fires or the service is cleaned up while the request is pending.
+ * It is also the reason of a handler's `HandlerContext.signal` when its requester cancels the request.
+ */
+export class RequestAbortedError extends Error {
+  /**
+   * The ID of the request that was aborted.
+   * @type {any}
+   */
+  public requestId: any
+
+  /**
+   * The reason given for aborting the request, if any (e.g. `AbortSignal.reason`).
+   * @type {any}
+   */
+  public reason?: any
+
+  /**
+   * Creates an instance of the RequestAbortedError.
+   *
+   * @param requestId The ID of the request that was aborted.
+   * @param reason Optional reason the request was aborted.
+   */
+  constructor(requestId: any, reason?: any) {
+    super(`Request "${requestId}" was aborted.`)
+    this.name = 'RequestAbortedError'
+    this.requestId = requestId
+    this.reason = reason
+  }
+}
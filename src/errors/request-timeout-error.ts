@@ -0,0 +1,31 @@
+/**
+ * Represents the failure of a request that did not receive a response in time.
+ * The promise returned by `MessagingService.sendMessage()` rejects with this error when the
+ * request's timeout elapses before a matching `ResponseMessage` arrives.
+ */
+export class RequestTimeoutError extends Error {
+  /**
+   * The ID of the request that timed out.
+   * @type {any}
+   */
+  public requestId: any
+
+  /**
+   * The number of milliseconds that were waited before giving up on the response.
+   * @type {number}
+   */
+  public timeoutMs: number
+
+  /**
+   * Creates an instance of the RequestTimeoutError.
+   *
+   * @param requestId The ID of the request that timed out.
+   * @param timeoutMs The number of milliseconds that were waited for the response.
+   */
+  constructor(requestId: any, timeoutMs: number) {
+    super(`Request "${requestId}" timed out after ${timeoutMs}ms.`)
+    this.name = 'RequestTimeoutError'
+    this.requestId = requestId
+    this.timeoutMs = timeoutMs
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Represents the failure of a request whose worker crashed or exited before responding.
+ * The promise returned by `MessagingService.sendMessage()` rejects with this error when the worker the
+ * request was routed through emits `error` or `exit` while the request is pending.
+ */
+export class WorkerCrashedError extends Error {
+  /**
+   * The messenger of the worker that crashed.
+   * @type {string}
+   */
+  public worker: string
+
+  /**
+   * The exit code of the worker, if it exited.
+   * @type {number | undefined}
+   */
+  public exitCode?: number
+
+  /**
+   * Creates an instance of the WorkerCrashedError.
+   *
+   * @param worker The messenger of the worker that crashed.
+   * @param cause The error thrown by the worker, if any.
+   * @param exitCode The exit code of the worker, if it exited.
+   */
+  constructor(worker: string, cause?: Error, exitCode?: number) {
+    super(
+      cause
+        ? `Worker "${worker}" crashed: ${cause.message}`
+        : `Worker "${worker}" exited with code ${exitCode}.`,
+      { cause }
+    )
+    this.name = 'WorkerCrashedError'
+    this.worker = worker
+    this.exitCode = exitCode
+  }
+}
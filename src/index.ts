@@ -1,9 +1,96 @@
 export { MessagingService } from './services'
 
-export { GeneralMessage, RequestMessage, ResponseMessage } from './models'
+export {
+  GeneralMessage,
+  RequestMessage,
+  ResponseMessage,
+  ErrorResponseMessage,
+  ReadyMessage,
+  SharedChannelMessage,
+  StreamChunkMessage,
+  StreamEndMessage,
+  CancelMessage,
+  ProgressMessage,
+} from './models'
+
+export {
+  WorkerThreadsTransport,
+  WorkerThreadsEndpoint,
+  WebWorkerTransport,
+  WebWorkerEndpoint,
+  MessagePortTransport,
+  BufferedTransport,
+  SharedChannelTransport,
+  SharedChannelOptions,
+  SharedChannel,
+  ChildProcessTransport,
+  ChildProcessEndpoint,
+  MESSENGER_ENV_VARIABLE,
+  SocketTransport,
+  SocketReconnectOptions,
+  SocketTransportOptions,
+  WorkerPool,
+  WorkerPoolFactory,
+  WorkerPoolOptions,
+  WorkerPoolStrategy,
+  isTransport,
+  toTransport,
+} from './transports'
+
+export {
+  InMemorySpanExporter,
+  JsonLinesSpanExporter,
+  generateTraceId,
+  generateSpanId,
+  formatTraceparent,
+  parseTraceparent,
+} from './tracing'
+
+export {
+  SilentLogger,
+  ConsoleLogger,
+  ConsoleLoggerOptions,
+  ConsoleLike,
+  JsonLogger,
+  JsonLoggerOptions,
+} from './logging'
+
+export { formatPrometheusMetrics, DEFAULT_LATENCY_BUCKETS_MS } from './metrics'
+
+export { RemoteError, RequestAbortedError, RequestTimeoutError, WorkerCrashedError } from './errors'
 
 export { MessageType } from './types/message-type'
 export { Messenger } from './types/messenger'
+export { MessageHeaders } from './types/message-headers'
+export { MessageHandler } from './types/message-handler'
+export { HandlerContext } from './types/handler-context'
+export { ProgressUpdate } from './types/progress-update'
+export { Middleware, MiddlewareContext, MiddlewareDirection } from './types/middleware'
+export { Transport } from './types/transport'
+export { TransportTarget } from './types/transport-target'
+export { Logger, LogLevel, LogFields } from './types/logger'
+export { Span, SpanKind } from './types/span'
+export { SpanExporter } from './types/span-exporter'
+export { SocketAddress } from './types/socket-address'
+export { MessagingServiceOptions } from './types/messaging-service-options'
+export { TransportEvent } from './types/transport-event'
+export { AddWorkerOptions, RestartPolicy } from './types/add-worker-options'
+export { SpawnWorkerOptions } from './types/spawn-worker-options'
+export { SpawnedWorker } from './types/spawned-worker'
+export { MessagingServiceEvents, DeadLetterReason } from './types/messaging-service-events'
+export {
+  MessagingServiceMetrics,
+  MessageCounter,
+  MessageOutcome,
+  RequestLatencyHistogram,
+  WorkerMetrics,
+} from './types/messaging-service-metrics'
+export { SendMessageOptions } from './types/send-message-options'
+export { GatherOptions } from './types/gather-options'
+export { GatherResult, GatheredResponse, GatheredError } from './types/gather-result'
+export { SerializedError } from './types/serialized-error'
+export { MessageClass } from './types/message-class'
+export { RegisterMessageTypeOptions } from './types/register-message-type-options'
 
 export {
   messengerAsArray,
@@ -11,4 +98,11 @@ export {
   normalizeMessenger,
   messengersAreEqual,
   messengerIsUpstream,
+  messengerIsWithin,
+  serializeError,
+  registerMessageType,
+  unregisterMessageType,
+  reviveMessage,
 } from './utils'
+
+export { TypedEmitter } from './utils/typed-emitter'
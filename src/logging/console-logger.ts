@@ -0,0 +1,77 @@
+import { LogFields, LogLevel, Logger } from '../types/logger'
+import { isLevelEnabled } from './log-levels'
+
+/**
+ * The console methods used by a ConsoleLogger.
+ */
+export type ConsoleLike = Pick<Console, LogLevel>
+
+/**
+ * Options for creating a `ConsoleLogger`.
+ */
+export interface ConsoleLoggerOptions {
+  /**
+   * The least severe level that is logged. Default is `info`.
+   * @type {LogLevel | undefined}
+   */
+  level?: LogLevel
+
+  /**
+   * The console to log to. Default is the global `console`.
+   * @type {ConsoleLike | undefined}
+   */
+  console?: ConsoleLike
+}
+
+/**
+ * A Logger that writes entries to the console method of their level, followed by their fields, e.g.
+ * `[/worker] Added worker. { worker: '/worker/child' }`.
+ */
+export class ConsoleLogger implements Logger {
+  private level: LogLevel
+  private console: ConsoleLike
+
+  /**
+   * Creates an instance of the ConsoleLogger.
+   * @param {ConsoleLoggerOptions} [options] The level to log at and the console to log to.
+   */
+  constructor(options: ConsoleLoggerOptions = {}) {
+    this.level = options.level ?? 'info'
+    this.console = options.console ?? console
+  }
+
+  public debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields)
+  }
+
+  public info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields)
+  }
+
+  public warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields)
+  }
+
+  public error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields)
+  }
+
+  public isLevelEnabled(level: LogLevel): boolean {
+    return isLevelEnabled(level, this.level)
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields = {}) {
+    if (!isLevelEnabled(level, this.level)) {
+      return
+    }
+
+    const { messenger, ...rest } = fields
+    const line = messenger === undefined ? message : `[${messenger}] ${message}`
+
+    if (Object.keys(rest).length > 0) {
+      this.console[level](line, rest)
+    } else {
+      this.console[level](line)
+    }
+  }
+}
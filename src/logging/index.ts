@@ -0,0 +1,4 @@
+export { SilentLogger } from './silent-logger'
+export { ConsoleLogger, ConsoleLoggerOptions, ConsoleLike } from './console-logger'
+export { JsonLogger, JsonLoggerOptions } from './json-logger'
+export { LOG_LEVEL_VALUES, isLevelEnabled } from './log-levels'
@@ -0,0 +1,102 @@
+import { LogFields, LogLevel, Logger } from '../types/logger'
+import { serializeError } from '../utils/error-utils'
+import { LOG_LEVEL_VALUES, isLevelEnabled } from './log-levels'
+
+/**
+ * Options for creating a `JsonLogger`.
+ */
+export interface JsonLoggerOptions {
+  /**
+   * The least severe level that is logged. Default is `info`.
+   * @type {LogLevel | undefined}
+   */
+  level?: LogLevel
+
+  /**
+   * Writes a line of JSON. Default is `console.log`; pass e.g. `(line) => process.stdout.write(line + '\n')`.
+   * @type {((line: string) => void) | undefined}
+   */
+  write?: (line: string) => void
+
+  /**
+   * Fields added to every entry (e.g. the process or host name).
+   * @type {LogFields | undefined}
+   */
+  fields?: LogFields
+}
+
+/**
+ * A Logger that writes each entry as a line of JSON in pino's format (`level`, `time`, `msg` and the
+ * fields), so that the output can be processed with pino's tooling and log pipelines. Errors in fields
+ * are serialized with their name, message and stack.
+ */
+export class JsonLogger implements Logger {
+  private level: LogLevel
+  private write: (line: string) => void
+  private fields: LogFields
+
+  /**
+   * Creates an instance of the JsonLogger.
+   * @param {JsonLoggerOptions} [options] The level to log at, where to write and fields for every entry.
+   */
+  constructor(options: JsonLoggerOptions = {}) {
+    this.level = options.level ?? 'info'
+    this.write = options.write ?? ((line) => console.log(line))
+    this.fields = options.fields ?? {}
+  }
+
+  public debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields)
+  }
+
+  public info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields)
+  }
+
+  public warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields)
+  }
+
+  public error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields)
+  }
+
+  public isLevelEnabled(level: LogLevel): boolean {
+    return isLevelEnabled(level, this.level)
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields = {}) {
+    if (!isLevelEnabled(level, this.level)) {
+      return
+    }
+
+    const entry = {
+      level: LOG_LEVEL_VALUES[level],
+      time: Date.now(),
+      msg: message,
+      ...this.fields,
+      ...fields,
+    }
+
+    let line: string
+    try {
+      line = JSON.stringify(entry, (key, value) => {
+        if (value instanceof Error) {
+          return serializeError(value)
+        }
+        return typeof value === 'bigint' ? value.toString() : value
+      })
+    } catch (error) {
+      // e.g. circular data in a message
+      line = JSON.stringify({
+        level: entry.level,
+        time: entry.time,
+        msg: message,
+        ...this.fields,
+        logError: `Unable to serialize fields: ${error}`,
+      })
+    }
+
+    this.write(line)
+  }
+}
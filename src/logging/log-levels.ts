@@ -0,0 +1,21 @@
+import { LogLevel } from '../types/logger'
+
+/**
+ * The numeric value of each level, matching pino's, so that entries can be filtered by level.
+ */
+export const LOG_LEVEL_VALUES: Record<LogLevel, number> = {
+  debug: 20,
+  info: 30,
+  warn: 40,
+  error: 50,
+}
+
+/**
+ * Determines if an entry is logged by a logger with a minimum level.
+ * @param {LogLevel} level The level of the entry.
+ * @param {LogLevel} minimumLevel The least severe level the logger logs.
+ * @returns {boolean} `true` if the entry should be logged.
+ */
+export function isLevelEnabled(level: LogLevel, minimumLevel: LogLevel): boolean {
+  return LOG_LEVEL_VALUES[level] >= LOG_LEVEL_VALUES[minimumLevel]
+}
@@ -0,0 +1,15 @@
+import { Logger } from '../types/logger'
+
+/**
+ * A Logger that discards every entry. This is the default, so logging costs nothing unless enabled.
+ */
+export class SilentLogger implements Logger {
+  public debug(): void {}
+  public info(): void {}
+  public warn(): void {}
+  public error(): void {}
+
+  public isLevelEnabled(): boolean {
+    return false
+  }
+}
@@ -0,0 +1,2 @@
+export { MessageMetrics, DEFAULT_LATENCY_BUCKETS_MS } from './message-metrics'
+export { formatPrometheusMetrics } from './prometheus'
@@ -0,0 +1,107 @@
+import {
+  MessageCounter,
+  MessageOutcome,
+  RequestLatencyHistogram,
+} from '../types/messaging-service-metrics'
+
+/**
+ * The default upper bounds of the request latency histogram buckets, in milliseconds.
+ */
+export const DEFAULT_LATENCY_BUCKETS_MS = [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000]
+
+/**
+ * Counts messages by name, destination and outcome, and records the latency of requests in histograms.
+ */
+export class MessageMetrics {
+  private bucketsMs: number[]
+  private counters: Map<string, MessageCounter> = new Map()
+  private histograms: Map<string, RequestLatencyHistogram> = new Map()
+
+  /**
+   * Creates an instance of the MessageMetrics.
+   * @param {number[]} [bucketsMs] The upper bounds of the latency histogram buckets, in milliseconds.
+   */
+  constructor(bucketsMs: number[] = DEFAULT_LATENCY_BUCKETS_MS) {
+    this.bucketsMs = [...bucketsMs].sort((a, b) => a - b)
+  }
+
+  /**
+   * Counts a message.
+   * @param {MessageOutcome} outcome What happened to the message.
+   * @param {string} name The name of the message.
+   * @param {string} destination The destination of the message.
+   */
+  public count(outcome: MessageOutcome, name: string, destination: string): void {
+    const key = `${name}\0${destination}`
+    let counter = this.counters.get(key)
+
+    if (!counter) {
+      counter = { name, destination, sent: 0, received: 0, forwarded: 0, dropped: 0 }
+      this.counters.set(key, counter)
+    }
+
+    counter[outcome]++
+  }
+
+  /**
+   * Records the round-trip latency of a request.
+   * @param {string} name The name of the request.
+   * @param {string} destination The destination of the request.
+   * @param {number} durationMs How long the request took to be answered or fail, in milliseconds.
+   * @param {boolean} failed Whether the request failed.
+   */
+  public observeRequest(name: string, destination: string, durationMs: number, failed: boolean) {
+    const key = `${name}\0${destination}`
+    let histogram = this.histograms.get(key)
+
+    if (!histogram) {
+      histogram = {
+        name,
+        destination,
+        buckets: this.bucketsMs.map((le) => ({ le, count: 0 })),
+        count: 0,
+        sum: 0,
+        failures: 0,
+      }
+      this.histograms.set(key, histogram)
+    }
+
+    histogram.buckets.forEach((bucket) => {
+      if (durationMs <= bucket.le) {
+        bucket.count++
+      }
+    })
+    histogram.count++
+    histogram.sum += durationMs
+    if (failed) {
+      histogram.failures++
+    }
+  }
+
+  /**
+   * Copies the current counters.
+   * @returns {MessageCounter[]} The counters, in the order they were first counted.
+   */
+  public getCounters(): MessageCounter[] {
+    return Array.from(this.counters.values(), (counter) => ({ ...counter }))
+  }
+
+  /**
+   * Copies the current latency histograms.
+   * @returns {RequestLatencyHistogram[]} The histograms, in the order they were first observed.
+   */
+  public getHistograms(): RequestLatencyHistogram[] {
+    return Array.from(this.histograms.values(), (histogram) => ({
+      ...histogram,
+      buckets: histogram.buckets.map((bucket) => ({ ...bucket })),
+    }))
+  }
+
+  /**
+   * Resets all counters and histograms.
+   */
+  public reset(): void {
+    this.counters.clear()
+    this.histograms.clear()
+  }
+}
@@ -0,0 +1,114 @@
+import { MessagingServiceMetrics } from '../types/messaging-service-metrics'
+
+/**
+ * The prefix of the names of all exported metrics.
+ */
+const PREFIX = 'messageworks'
+
+/**
+ * Escapes a label value for the Prometheus text format.
+ * @param {string} value The label value.
+ * @returns {string} The escaped value.
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+/**
+ * Formats a set of labels, e.g. `{messenger="/",name="greet"}`.
+ * @param {Record<string, string>} labels The label names and values.
+ * @returns {string} The formatted labels.
+ */
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(
+    ([label, value]) => `${label}="${escapeLabelValue(value)}"`
+  )
+  return `{${pairs.join(',')}}`
+}
+
+/**
+ * Formats the metrics of one or more services in the Prometheus text exposition format, e.g. to serve
+ * them from a `/metrics` endpoint. Latencies are converted to seconds, as Prometheus recommends.
+ * @param {MessagingServiceMetrics | MessagingServiceMetrics[]} metrics Snapshots from `MessagingService.getMetrics()`.
+ * @returns {string} The metrics in the Prometheus text format.
+ */
+export function formatPrometheusMetrics(
+  metrics: MessagingServiceMetrics | MessagingServiceMetrics[]
+): string {
+  const snapshots = Array.isArray(metrics) ? metrics : [metrics]
+  const lines: string[] = []
+
+  const family = (name: string, type: string, help: string, samples: string[]) => {
+    lines.push(`# HELP ${PREFIX}_${name} ${help}`, `# TYPE ${PREFIX}_${name} ${type}`, ...samples)
+  }
+
+  family(
+    'messages_total',
+    'counter',
+    'Messages by name, destination and outcome (sent, received, forwarded or dropped).',
+    snapshots.flatMap(({ messenger, messages }) =>
+      messages.flatMap(({ name, destination, ...outcomes }) =>
+        Object.entries(outcomes).map(
+          ([outcome, count]) =>
+            `${PREFIX}_messages_total${formatLabels({ messenger, name, destination, outcome })} ${count}`
+        )
+      )
+    )
+  )
+
+  family(
+    'request_duration_seconds',
+    'histogram',
+    'Round-trip latency of requests by name and destination.',
+    snapshots.flatMap(({ messenger, requests }) =>
+      requests.flatMap(({ name, destination, buckets, count, sum }) => {
+        const labels = { messenger, name, destination }
+        return [
+          ...buckets.map(
+            (bucket) =>
+              `${PREFIX}_request_duration_seconds_bucket${formatLabels({ ...labels, le: String(bucket.le / 1000) })} ${bucket.count}`
+          ),
+          `${PREFIX}_request_duration_seconds_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+          `${PREFIX}_request_duration_seconds_sum${formatLabels(labels)} ${sum / 1000}`,
+          `${PREFIX}_request_duration_seconds_count${formatLabels(labels)} ${count}`,
+        ]
+      })
+    )
+  )
+
+  family(
+    'request_failures_total',
+    'counter',
+    'Requests answered with an error, timed out or aborted, by name and destination.',
+    snapshots.flatMap(({ messenger, requests }) =>
+      requests.map(
+        ({ name, destination, failures }) =>
+          `${PREFIX}_request_failures_total${formatLabels({ messenger, name, destination })} ${failures}`
+      )
+    )
+  )
+
+  family(
+    'pending_requests',
+    'gauge',
+    'Requests waiting for a response.',
+    snapshots.map(
+      ({ messenger, pendingRequests }) =>
+        `${PREFIX}_pending_requests${formatLabels({ messenger })} ${pendingRequests}`
+    )
+  )
+
+  family(
+    'worker_queue_depth',
+    'gauge',
+    'Messages waiting to be delivered to or processed by each worker.',
+    snapshots.flatMap(({ messenger, workers }) =>
+      workers.map(
+        ({ worker, queueDepth }) =>
+          `${PREFIX}_worker_queue_depth${formatLabels({ messenger, worker })} ${queueDepth}`
+      )
+    )
+  )
+
+  return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,39 @@
+import { GeneralMessage } from './general-message'
+import { RequestMessage } from './request-message'
+import { MessageType } from '../types/message-type'
+import { Messenger } from '../types/messenger'
+
+/**
+ * Represents the cancellation of a request in the messaging system.
+ * This class extends the GeneralMessage class and overrides the message type to `CANCEL`.
+ *
+ * It is sent by a requester that no longer waits for the responses to a request, because its abort
+ * signal fired, its timeout elapsed or the consumer of `MessagingService.stream()` stopped iterating.
+ * It is routed like any other message to the messenger handling the request, which aborts the
+ * handler's `HandlerContext.signal` and stops sending responses. The cancel of a broadcast request is
+ * broadcast to the same subtree, unless it is addressed to the messenger known to handle the request.
+ */
+export class CancelMessage extends GeneralMessage<string> {
+  /**
+   * The ID of the request that is cancelled.
+   * @type {any}
+   */
+  public requestId: any
+
+  /**
+   * Creates an instance of the CancelMessage.
+   *
+   * The message takes the name of the request so that middleware can tell which request is cancelled.
+   *
+   * @param request The request message that is cancelled.
+   * @param destination The messenger handling the request. Default is the request's destination,
+   *                    or its whole subtree for a broadcast request.
+   * @param reason Optionally why the request is cancelled.
+   */
+  constructor(request: RequestMessage<any>, destination?: Messenger, reason?: string) {
+    super(request.name, destination ?? request.destination, reason)
+    this.type = MessageType.CANCEL
+    this.requestId = request.id
+    this.broadcast = destination === undefined && request.broadcast
+  }
+}
@@ -0,0 +1,28 @@
+import { RequestMessage } from './request-message'
+import { ResponseMessage } from './response-message'
+import { MessageType } from '../types/message-type'
+import { SerializedError } from '../types/serialized-error'
+import { serializeError } from '../utils/error-utils'
+
+/**
+ * Represents a failed response in the messaging system.
+ * This class extends the ResponseMessage class and overrides the message type to `ERROR`.
+ *
+ * It is sent in reply to a `RequestMessage` whose handling failed. The error is serialized so that
+ * its name, message, stack and code survive `postMessage()`, and the requester's pending
+ * `sendMessage()` promise rejects with a `RemoteError` reconstructed from it.
+ */
+export class ErrorResponseMessage extends ResponseMessage<SerializedError> {
+  /**
+   * Creates an instance of the ErrorResponseMessage.
+   *
+   * The message takes the name of the original request so the requester can tell which request failed.
+   *
+   * @param request The original request message that failed.
+   * @param error The error (or any thrown value) that caused the failure.
+   */
+  constructor(request: RequestMessage<any>, error: unknown) {
+    super(request.name, request, serializeError(error))
+    this.type = MessageType.ERROR
+  }
+}
@@ -1,5 +1,6 @@
 import { MessageType } from '../types/message-type'
 import { Messenger } from '../types/messenger'
+import { MessageHeaders } from '../types/message-headers'
 
 /**
  * Represents a general message in the messaging system.
@@ -50,6 +51,82 @@ export class GeneralMessage<T> {
    */
   public data?: T
 
+  /**
+   * Optional objects in the message (e.g. `ArrayBuffer`s or `MessagePort`s) to transfer rather than copy
+   * when it is posted to a worker or port. They are transferred again at every intermediate hop.
+   * Ignored by transports that serialize messages, such as child processes and sockets.
+   * @type {Transferable[] | undefined}
+   */
+  public transfer?: Transferable[]
+
+  /**
+   * Application-defined metadata (e.g. tenant or auth information), preserved across forwarding hops.
+   * @type {MessageHeaders}
+   */
+  public headers: MessageHeaders = {}
+
+  /**
+   * When the message was first sent, in milliseconds since the epoch. This will be set automatically
+   * by MessagingService.sendMessage() if it is not set.
+   * @type {number | undefined}
+   */
+  public timestamp?: number
+
+  /**
+   * The identifier shared by all messages of a conversation (e.g. a request and its response). This will
+   * be set to the message's own id by MessagingService.sendMessage() if it is not set.
+   * @type {any}
+   */
+  public correlationId?: any
+
+  /**
+   * The messenger that responses to this request should be sent to, if not its source.
+   * The source only receives the response (and settles its `sendMessage()` promise) if it is the `replyTo`.
+   * @type {Messenger | undefined}
+   */
+  public replyTo?: Messenger
+
+  /**
+   * When the message expires, in milliseconds since the epoch. For requests sent with a timeout, this will
+   * be set automatically by MessagingService.sendMessage() if it is not set. Messages that arrive at a
+   * messenger after they expire are dead-lettered.
+   * @type {number | undefined}
+   */
+  public expiresAt?: number
+
+  /**
+   * The number of times the message has been forwarded. This will be set by MessagingService.
+   * @type {number | undefined}
+   */
+  public hops?: number
+
+  /**
+   * The messengers the message has passed through, starting with its source. This will be set by
+   * MessagingService, which dead-letters a message that arrives at a messenger it already visited.
+   * @type {string[] | undefined}
+   */
+  public visited?: string[]
+
+  /**
+   * The priority of the message; higher numbers are more important.
+   * @type {number | undefined}
+   */
+  public priority?: number
+
+  /**
+   * The trace the message belongs to, as 32 lowercase hex characters (W3C trace-context `trace-id`).
+   * This will be set by MessagingService when tracing is enabled and it is not set.
+   * @type {string | undefined}
+   */
+  public traceId?: string
+
+  /**
+   * The span that last sent, forwarded or handled the message, as 16 lowercase hex characters
+   * (W3C trace-context `parent-id`). Spans recorded for the message at the next hop are its children.
+   * @type {string | undefined}
+   */
+  public spanId?: string
+
   /**
    * Creates an instance of the GeneralMessage.
    *
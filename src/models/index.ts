@@ -1,3 +1,10 @@
 export { GeneralMessage } from './general-message'
 export { RequestMessage } from './request-message'
 export { ResponseMessage } from './response-message'
+export { ErrorResponseMessage } from './error-response-message'
+export { ReadyMessage } from './ready-message'
+export { SharedChannelMessage } from './shared-channel-message'
+export { StreamChunkMessage } from './stream-chunk-message'
+export { StreamEndMessage } from './stream-end-message'
+export { CancelMessage } from './cancel-message'
+export { ProgressMessage } from './progress-message'
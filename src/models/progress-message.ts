@@ -0,0 +1,25 @@
+import { RequestMessage } from './request-message'
+import { ResponseMessage } from './response-message'
+import { MessageType } from '../types/message-type'
+import { ProgressUpdate } from '../types/progress-update'
+
+/**
+ * Represents a progress update for a request in the messaging system.
+ * This class extends the ResponseMessage class and overrides the message type to `PROGRESS`.
+ *
+ * It is sent while a handler is still working on a request, when it calls `HandlerContext.progress()`.
+ * It does not settle the request: the requester's `onProgress` callback is called with its data,
+ * and the request still resolves with the final `ResponseMessage`.
+ */
+export class ProgressMessage extends ResponseMessage<ProgressUpdate> {
+  /**
+   * Creates an instance of the ProgressMessage.
+   *
+   * @param request The original request message the progress is reported for.
+   * @param update The progress of the request.
+   */
+  constructor(request: RequestMessage<any>, update: ProgressUpdate) {
+    super(request.name, request, update)
+    this.type = MessageType.PROGRESS
+  }
+}
@@ -0,0 +1,25 @@
+import { GeneralMessage } from './general-message'
+import { MessageType } from '../types/message-type'
+import { Messenger } from '../types/messenger'
+import { messengerAsArray } from '../utils/messenger-utils'
+
+/**
+ * Represents the readiness announcement a MessagingService sends to its parent.
+ * This class extends the GeneralMessage class and overrides the message type to `READY`.
+ *
+ * It is sent directly over the upstream transport as soon as the service is connected, and is
+ * consumed by the parent rather than routed: the parent marks the worker ready and delivers any
+ * messages it buffered for it.
+ */
+export class ReadyMessage extends GeneralMessage<undefined> {
+  /**
+   * Creates an instance of the ReadyMessage.
+   *
+   * @param source The messenger of the service that is ready. The destination is its parent messenger.
+   */
+  constructor(source: Messenger) {
+    super('ready', messengerAsArray(source).slice(0, -1))
+    this.type = MessageType.READY
+    this.source = source
+  }
+}
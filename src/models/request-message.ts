@@ -8,7 +8,20 @@ import { Messenger } from '../types/messenger'
  *
  * @template T The type of data this request message may contain. This is typically used for passing data in the request.
  */
-export abstract class RequestMessage<T> extends GeneralMessage<T> {
+export class RequestMessage<T> extends GeneralMessage<T> {
+  /**
+   * Whether the requester consumes the response as a stream of chunks. Set by `MessagingService.stream()`.
+   * @type {boolean | undefined}
+   */
+  public stream?: boolean
+
+  /**
+   * Whether the requester wants progress updates. Set by `MessagingService.sendMessage()` when it is
+   * given an `onProgress` callback.
+   * @type {boolean | undefined}
+   */
+  public reportProgress?: boolean
+
   /**
    * Creates an instance of the RequestMessage.
    *
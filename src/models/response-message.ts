@@ -13,7 +13,7 @@ import { MessageType } from '../types/message-type'
  * @template T The type of data this response message may contain. This is typically used for passing data
  *              related to the response (such as success, failure, or result data).
  */
-export abstract class ResponseMessage<T> extends GeneralMessage<T> {
+export class ResponseMessage<T> extends GeneralMessage<T> {
   /**
    * The ID of the original request this response is related to.
    * This property is used to link the response back to the originating request message.
@@ -25,18 +25,21 @@ export abstract class ResponseMessage<T> extends GeneralMessage<T> {
   /**
    * Creates an instance of the ResponseMessage.
    *
-   * This constructor sets the message type to `RESPONSE`, assigns the `requestId` from the incoming request,
-   * and passes the source of the request (to be used as the destination in the response) and optional data
-   * to the parent class `GeneralMessage`.
+   * This constructor sets the message type to `RESPONSE`, assigns the `requestId`, `correlationId` and
+   * trace context from the incoming request, and passes the `replyTo` or source of the request (to be used
+   * as the destination in the response) and optional data to the parent class `GeneralMessage`.
    *
    * @param name The name of the response message, typically identifying the purpose of the response.
-   * @param request The original request message to which this is responding. The `requestId` and `source`
-   *                are extracted from this request.
+   * @param request The original request message to which this is responding. The `requestId`, `correlationId`
+   *                and `replyTo` or `source` are extracted from this request.
    * @param data Optional data that the response message may contain (e.g., result, success/failure data).
    */
   constructor(name: string, request: RequestMessage<any>, data?: T) {
-    super(name, request.source, data)
+    super(name, request.replyTo ?? request.source, data)
     this.type = MessageType.RESPONSE
     this.requestId = request.id
+    this.correlationId = request.correlationId ?? request.id
+    this.traceId = request.traceId
+    this.spanId = request.spanId
   }
 }
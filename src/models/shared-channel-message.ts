@@ -0,0 +1,25 @@
+import { GeneralMessage } from './general-message'
+import { MessageType } from '../types/message-type'
+import { Messenger } from '../types/messenger'
+import type { SharedChannel } from '../transports/shared-channel-transport'
+
+/**
+ * Represents the offer of a shared memory channel from a MessagingService to a direct child.
+ * This class extends the GeneralMessage class and overrides the message type to `SHARED_CHANNEL`.
+ *
+ * It is sent directly over the child's transport and is consumed by the child rather than routed:
+ * the child wraps its upstream transport in a `SharedChannelTransport` over the offered buffers.
+ * The child then sends the message back to accept the offer, and the parent starts using the channel.
+ */
+export class SharedChannelMessage extends GeneralMessage<SharedChannel> {
+  /**
+   * Creates an instance of the SharedChannelMessage.
+   *
+   * @param destination The messenger of the child the channel is offered to.
+   * @param channel The shared buffers of the child's end of the channel.
+   */
+  constructor(destination: Messenger, channel: SharedChannel) {
+    super('shared-channel', destination, channel)
+    this.type = MessageType.SHARED_CHANNEL
+  }
+}
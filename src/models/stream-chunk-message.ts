@@ -0,0 +1,34 @@
+import { RequestMessage } from './request-message'
+import { ResponseMessage } from './response-message'
+import { MessageType } from '../types/message-type'
+
+/**
+ * Represents one chunk of a streamed response in the messaging system.
+ * This class extends the ResponseMessage class and overrides the message type to `STREAM_CHUNK`.
+ *
+ * It is sent for each value produced by a handler that returns an async iterable, in reply to a
+ * request sent with `MessagingService.stream()`. The stream is completed by a `StreamEndMessage`,
+ * or by an `ErrorResponseMessage` if the handler fails.
+ *
+ * @template T The type of data the chunk contains.
+ */
+export class StreamChunkMessage<T> extends ResponseMessage<T> {
+  /**
+   * The position of the chunk in the stream, starting at 0.
+   * @type {number}
+   */
+  public sequence: number
+
+  /**
+   * Creates an instance of the StreamChunkMessage.
+   *
+   * @param request The original request message the stream responds to.
+   * @param data The value produced by the handler.
+   * @param sequence The position of the chunk in the stream.
+   */
+  constructor(request: RequestMessage<any>, data: T, sequence: number) {
+    super(request.name, request, data)
+    this.type = MessageType.STREAM_CHUNK
+    this.sequence = sequence
+  }
+}
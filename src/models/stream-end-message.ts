@@ -0,0 +1,23 @@
+import { RequestMessage } from './request-message'
+import { ResponseMessage } from './response-message'
+import { MessageType } from '../types/message-type'
+
+/**
+ * Represents the end of a streamed response in the messaging system.
+ * This class extends the ResponseMessage class and overrides the message type to `STREAM_END`.
+ *
+ * It is sent after the last `StreamChunkMessage` once the handler's async iterable is done.
+ * Its data is the number of chunks that were sent.
+ */
+export class StreamEndMessage extends ResponseMessage<number> {
+  /**
+   * Creates an instance of the StreamEndMessage.
+   *
+   * @param request The original request message the stream responds to.
+   * @param count The number of chunks that were sent.
+   */
+  constructor(request: RequestMessage<any>, count: number) {
+    super(request.name, request, count)
+    this.type = MessageType.STREAM_END
+  }
+}
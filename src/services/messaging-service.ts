@@ -1,14 +1,182 @@
+import type { Server } from 'net'
 import { UUIDTypes, v4 as generateUUID } from 'uuid'
 import { MessageType } from '../types/message-type'
 import { Messenger } from '../types/messenger'
 import { GeneralMessage } from '../models/general-message'
 import { ResponseMessage } from '../models/response-message'
+import { RequestMessage } from '../models/request-message'
+import { ErrorResponseMessage } from '../models/error-response-message'
+import { ReadyMessage } from '../models/ready-message'
+import { SharedChannelMessage } from '../models/shared-channel-message'
+import { StreamChunkMessage } from '../models/stream-chunk-message'
+import { StreamEndMessage } from '../models/stream-end-message'
+import { CancelMessage } from '../models/cancel-message'
+import { ProgressMessage } from '../models/progress-message'
+import {
+  RemoteError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  WorkerCrashedError,
+} from '../errors'
+import { SendMessageOptions } from '../types/send-message-options'
+import { GatherOptions } from '../types/gather-options'
+import { GatheredError, GatheredResponse, GatherResult } from '../types/gather-result'
+import { MessageHandler } from '../types/message-handler'
+import { HandlerContext } from '../types/handler-context'
+import { Transport } from '../types/transport'
+import { TransportTarget } from '../types/transport-target'
+import { MessagingServiceOptions } from '../types/messaging-service-options'
+import { DeadLetterReason, MessagingServiceEvents } from '../types/messaging-service-events'
+import { AddWorkerOptions, RestartPolicy } from '../types/add-worker-options'
+import { TransportEvent } from '../types/transport-event'
+import { SocketAddress } from '../types/socket-address'
+import { SpawnWorkerOptions } from '../types/spawn-worker-options'
+import { SpawnedWorker } from '../types/spawned-worker'
+import { Middleware, MiddlewareContext, MiddlewareDirection } from '../types/middleware'
+import { Span, SpanKind } from '../types/span'
+import { SpanExporter } from '../types/span-exporter'
+import { MessageOutcome, MessagingServiceMetrics } from '../types/messaging-service-metrics'
+import { LogFields, LogLevel, Logger } from '../types/logger'
+import {
+  BufferedTransport,
+  MESSENGER_ENV_VARIABLE,
+  SharedChannelOptions,
+  SharedChannelTransport,
+  SocketTransportOptions,
+  SocketTransport,
+  WebWorkerEndpoint,
+  WorkerThreadsEndpoint,
+  WorkerPool,
+  WorkerPoolFactory,
+  WorkerPoolOptions,
+  isTransport,
+  toTransport,
+} from '../transports'
 import {
   messengerAsString,
   messengersAreEqual,
   messengerIsUpstream,
+  messengerIsWithin,
   messengerAsArray,
+  reviveMessage,
+  serializeError,
 } from '../utils'
+import { generateSpanId, generateTraceId } from '../tracing'
+import { MessageMetrics } from '../metrics'
+import { SilentLogger } from '../logging'
+import { TypedEmitter } from '../utils/typed-emitter'
+import { composeMiddleware } from '../utils/middleware-utils'
+
+/**
+ * Settles the pending promise of a request that is waiting for its response.
+ */
+type ResponseHandler = {
+  resolve: (message: ResponseMessage<any>) => void
+  reject: (error: Error) => void
+  progress?: (message: ProgressMessage) => void
+  route?: string
+}
+
+/**
+ * Registers a handler that collects every response to a request, instead of waiting for the first.
+ * It is passed the key of the worker the request was sent through, if it went to exactly one.
+ */
+type ResponseCollector = (message: GeneralMessage<any>, route?: string) => void
+
+/**
+ * Determines if a handler's result is streamed, i.e. if it is an async iterable such as an async generator.
+ * @param {any} value The result of a handler.
+ * @returns {boolean} `true` if the value is an async iterable.
+ */
+function isAsyncIterable(value: any): value is AsyncIterable<any> {
+  return value != null && typeof value[Symbol.asyncIterator] === 'function'
+}
+
+/**
+ * Determines if a value passed as the options of `sendMessage()` is a worker, port or Transport, as
+ * passed by callers of the former `sendMessage(message, worker)` signature.
+ * @param {any} value The second argument of `sendMessage()`.
+ * @returns {boolean} `true` if the value is a worker, port or Transport rather than options.
+ */
+function isWorkerLike(value: any): boolean {
+  return (
+    isTransport(value) ||
+    typeof value?.postMessage === 'function' ||
+    typeof value?.send === 'function'
+  )
+}
+
+/**
+ * Gets the key of a request being handled, unique per requester.
+ * @param {Messenger} source The messenger that sent the request.
+ * @param {UUIDTypes} requestId The ID of the request.
+ * @returns {string} The key.
+ */
+function getRequestKey(source: Messenger, requestId: UUIDTypes): string {
+  return `${messengerAsString(source)} ${requestId}`
+}
+
+/**
+ * The standard metadata `sendMessage()` filled in on a message because the caller did not set it.
+ */
+type FilledMetadata = Partial<
+  Pick<GeneralMessage<any>, 'timestamp' | 'correlationId' | 'expiresAt'>
+>
+
+/**
+ * Tracks how a supervised worker, or a member of a supervised pool, is restarted after it crashes.
+ */
+type WorkerSupervisor = {
+  restart: () => void
+  restartPolicy?: RestartPolicy
+  restarts: number
+  restartTimeout?: ReturnType<typeof setTimeout>
+}
+
+/**
+ * A request forwarded to a worker on behalf of another messenger, remembered so that its requester
+ * can be answered if the worker crashes before responding.
+ */
+type RelayedRequest = {
+  route: string
+  request: RequestMessage<any>
+}
+
+/**
+ * A shared memory channel offered to a direct child that has not accepted it yet.
+ */
+type SharedChannelOffer = {
+  message: SharedChannelMessage
+  transport: SharedChannelTransport
+}
+
+/**
+ * A pending `whenReady()` call, settled when the worker announces it is ready or crashes first.
+ */
+type ReadyWaiter = {
+  resolve: () => void
+  reject: (error: Error) => void
+}
+
+/**
+ * The default number of times a message can be forwarded before it is dead-lettered.
+ */
+const DEFAULT_MAX_HOPS = 32
+
+/**
+ * The number of broadcast message ids remembered to de-duplicate broadcasts.
+ */
+const BROADCAST_HISTORY_SIZE = 1024
+
+/**
+ * The number of requests relayed to workers that are remembered to answer them if a worker crashes.
+ */
+const RELAYED_REQUEST_HISTORY_SIZE = 1024
+
+/**
+ * The default number of milliseconds `gather()` collects responses for when no timeout is set.
+ */
+const DEFAULT_GATHER_TIMEOUT_MS = 1000
 
 /**
  * A service for handling messaging between different workers and instances.
@@ -18,17 +186,114 @@ export class MessagingService {
   private static instance: MessagingService | null = null
   private static instancePromise: Promise<MessagingService> | null = null
 
-  private workerThreads: typeof import('worker_threads') | undefined = undefined
-
   private messenger: Messenger
   public messageReceivedCallback: (message: GeneralMessage<any>) => void = (
     message: GeneralMessage<any>
   ) => {}
 
-  private workers: Map<string, any> = new Map()
-  private workerListeners: Map<string, (message: any) => void> = new Map()
+  private messageHandlers: Map<string, MessageHandler> = new Map()
+  private middleware: Record<MiddlewareDirection, Middleware[]> = {
+    send: [],
+    receive: [],
+    forward: [],
+  }
+
+  private upstream: Transport | undefined = undefined
+  private upstreamListener: (() => void) | undefined = undefined
+
+  private workers: Map<string, Transport> = new Map()
+  private workerListeners: Map<string, () => void> = new Map()
+  private workerSupervisors: Map<string, WorkerSupervisor> = new Map()
+  private readyWorkers: Set<string> = new Set()
+  private readyWaiters: Map<string, ReadyWaiter[]> = new Map()
+  private sharedChannelOffers: Map<string, SharedChannelOffer> = new Map()
+
+  private responseHandlers: Map<UUIDTypes, ResponseHandler> = new Map()
+  private relayedRequests: Map<UUIDTypes, RelayedRequest> = new Map()
+  private seenBroadcasts: Set<UUIDTypes> = new Set()
+  private activeRequests: Map<string, AbortController> = new Map()
+  private filledMetadata: WeakMap<GeneralMessage<any>, FilledMetadata> = new WeakMap()
+
+  private metrics: MessageMetrics = new MessageMetrics()
+
+  /**
+   * The default number of milliseconds to wait for a response to a request before rejecting with a
+   * `RequestTimeoutError`. Can be overridden per call with `SendMessageOptions.timeoutMs`.
+   * When undefined, requests wait indefinitely unless aborted.
+   * @type {number | undefined}
+   */
+  public requestTimeoutMs: number | undefined = undefined
+
+  /**
+   * The number of times a message can be forwarded before this service dead-letters it instead,
+   * so that messages caught between nodes that disagree about the topology are not forwarded forever.
+   * @type {number}
+   */
+  public maxHops: number = DEFAULT_MAX_HOPS
+
+  /**
+   * Receives a span for every message this service sends, forwards or handles. When undefined, no
+   * spans are recorded and messages keep the trace context they arrived with.
+   * @type {SpanExporter | undefined}
+   */
+  public spanExporter: SpanExporter | undefined = undefined
+
+  /**
+   * The logger used by new services and by `getInstance()` while it detects the environment.
+   * Default is a `SilentLogger`.
+   * @type {Logger}
+   */
+  public static defaultLogger: Logger = new SilentLogger()
+
+  /**
+   * Where the service and its transports log. Every entry has a `messenger` field.
+   * Default is `MessagingService.defaultLogger`.
+   * @type {Logger}
+   */
+  public logger: Logger = MessagingService.defaultLogger
+
+  /**
+   * Adds the messenger to the fields of every entry and logs it to the current `logger`.
+   * Entries below the logger's level are skipped before their fields are copied.
+   */
+  private log: Logger = {
+    debug: (message: string, fields?: LogFields) => {
+      if (this.isLevelEnabled('debug')) {
+        this.logger.debug(message, { messenger: this.messenger, ...fields })
+      }
+    },
+    info: (message: string, fields?: LogFields) => {
+      if (this.isLevelEnabled('info')) {
+        this.logger.info(message, { messenger: this.messenger, ...fields })
+      }
+    },
+    warn: (message: string, fields?: LogFields) => {
+      if (this.isLevelEnabled('warn')) {
+        this.logger.warn(message, { messenger: this.messenger, ...fields })
+      }
+    },
+    error: (message: string, fields?: LogFields) => {
+      if (this.isLevelEnabled('error')) {
+        this.logger.error(message, { messenger: this.messenger, ...fields })
+      }
+    },
+    isLevelEnabled: (level: LogLevel) => this.isLevelEnabled(level),
+  }
+
+  /**
+   * Lifecycle events of the service and its workers (e.g. `worker-crashed`, `worker-restarted`).
+   * @type {TypedEmitter<MessagingServiceEvents>}
+   */
+  public readonly events: TypedEmitter<MessagingServiceEvents> = new TypedEmitter(this.log)
 
-  private responseHandlers: Map<UUIDTypes, (message: ResponseMessage<any>) => void> = new Map()
+  /**
+   * Determines if the current `logger` logs entries of a level. Loggers that cannot tell log every level.
+   * @param {LogLevel} level The level of the entry.
+   * @returns {boolean} `true` if the entry would be logged.
+   */
+  private isLevelEnabled(level: LogLevel): boolean {
+    return this.logger.isLevelEnabled?.(level) ?? true
+  }
 
   /**
    * Creates an instance of the MessagingService.
@@ -39,9 +304,48 @@ export class MessagingService {
     this.messenger = messenger
   }
 
+  /**
+   * Creates a new, independent MessagingService.
+   * Unlike `getInstance()`, nothing is derived from the environment and nothing is cached, so a single
+   * thread can host several services (e.g. one per logical node, library or test case).
+   * @param {MessagingServiceOptions} [options] The messenger, upstream and defaults for the service.
+   * @returns {MessagingService} The new service.
+   */
+  public static create(options: MessagingServiceOptions = {}): MessagingService {
+    const messagingService = new MessagingService(options.messenger ?? '/')
+
+    messagingService.requestTimeoutMs = options.requestTimeoutMs
+    messagingService.maxHops = options.maxHops ?? DEFAULT_MAX_HOPS
+    messagingService.spanExporter = options.spanExporter
+
+    if (options.logger) {
+      messagingService.logger = options.logger
+    }
+
+    if (options.latencyBucketsMs) {
+      messagingService.metrics = new MessageMetrics(options.latencyBucketsMs)
+    }
+
+    if (options.upstream) {
+      messagingService.setUpstream(options.upstream)
+    }
+
+    messagingService.log.info('MessagingService created.')
+    return messagingService
+  }
+
+  /**
+   * Gets the process-wide MessagingService, creating it on first use.
+   * The messenger and upstream are derived from the environment: `workerData.name` and `parentPort`
+   * in worker threads, the `MESSAGEWORKS_MESSENGER` environment variable and `process` in forked
+   * child processes, or `self.name` and `self` in Web Workers.
+   * @returns {Promise<MessagingService>} A promise that resolves with the shared service.
+   */
   public static async getInstance(): Promise<MessagingService> {
     if (!MessagingService.instance) {
       MessagingService.instancePromise = new Promise(async (resolve, reject) => {
+        const logger = MessagingService.defaultLogger
+
         try {
           if (typeof process !== 'undefined' && process.versions && process.versions.node) {
             try {
@@ -49,50 +353,50 @@ export class MessagingService {
               const { isMainThread, workerData } = workerThreadsModule
 
               let messenger: Messenger = '/'
+              let upstream: TransportTarget | undefined = undefined
 
               if (!isMainThread) {
-                console.log(`SERVICE[${workerData.name}] Using workerData.name for messenger.`)
+                logger.debug('Using workerData.name for messenger.', { messenger: workerData.name })
                 messenger = workerData.name
+                upstream = workerThreadsModule.parentPort ?? undefined
+              } else if (process.send && process.env[MESSENGER_ENV_VARIABLE]) {
+                messenger = process.env[MESSENGER_ENV_VARIABLE]
+                logger.debug(`Using ${MESSENGER_ENV_VARIABLE} for messenger.`, { messenger })
+                upstream = process
               }
 
-              MessagingService.instance = new MessagingService(messenger)
-              MessagingService.instance.workerThreads = workerThreadsModule
-
-              if (!isMainThread) {
-                MessagingService.instance.setupWorkerThreadListener()
-              }
+              MessagingService.instance = MessagingService.create({ messenger, upstream })
 
-              console.log(`SERVICE[${messenger}] Is Worker Threads.`)
+              logger.debug('Is Worker Threads.', { messenger })
             } catch (err) {
-              console.error(`SERVICE[???] Failed to import worker_threads:`, err)
+              logger.error('Failed to import worker_threads.', { error: err })
               throw err
             }
           } else if (typeof self !== 'undefined') {
             let messenger: Messenger = '/'
 
             if (typeof window === 'undefined') {
-              console.log(`SERVICE[${self.name}] Using self.name for messenger.`)
+              logger.debug('Using self.name for messenger.', { messenger: self.name })
               messenger = self.name
             }
 
-            MessagingService.instance = new MessagingService(messenger)
-
-            if (typeof window === 'undefined') {
-              MessagingService.instance.setupWebWorkerListener()
-            }
+            MessagingService.instance = MessagingService.create({
+              messenger,
+              // Outside a window, `self` is the worker's global scope rather than a `Window`
+              upstream:
+                typeof window === 'undefined' ? (self as unknown as WebWorkerEndpoint) : undefined,
+            })
 
-            console.log(`SERVICE[${messenger}] Is Web Worker.`)
+            logger.debug('Is Web Worker.', { messenger })
           } else {
-            console.error(`SERVICE[???] Unknown worker environment.`)
+            logger.error('Unknown worker environment.')
             throw new Error(`SERVICE[???] Unknown worker environment.`)
           }
 
-          console.log(
-            `SERVICE[${MessagingService.instance.messenger}] MessagingService initialized.`
-          )
+          MessagingService.instance.log.info('MessagingService initialized.')
           resolve(MessagingService.instance)
         } catch (err) {
-          console.error(`SERVICE[???] Unable to create instance:`, err)
+          logger.error('Unable to create instance.', { error: err })
           reject(err)
         }
       })
@@ -101,299 +405,1947 @@ export class MessagingService {
     return MessagingService.instancePromise!
   }
 
-  private setupWorkerThreadListener() {
-    console.log(`SERVICE[${this.messenger}] Setting up Worker Thread Listener.`)
-    if (this.workerThreads) {
-      if (!this.workerThreads.isMainThread) {
-        this.workerThreads.parentPort?.on('message', (message) => {
-          this.handleMessage(message as GeneralMessage<any>)
-        })
-      }
+  /**
+   * Sets the transport used to reach the parent (upstream) messenger, replacing any previous upstream,
+   * and announces to the parent that this service is ready to receive messages.
+   * Worker threads and Web Workers use their `parentPort` or `self` automatically.
+   * @param {TransportTarget} upstream The Transport, or a worker, port or scope to wrap in one.
+   */
+  public setUpstream(upstream: TransportTarget): void {
+    this.upstreamListener?.()
+
+    this.upstream = toTransport(upstream)
+    this.upstreamListener = this.upstream.onMessage((message) => {
+      this.handleMessage(message, this.upstream)
+    })
+
+    this.log.info('Set upstream transport.')
+
+    const readyMessage = new ReadyMessage(this.messenger)
+    readyMessage.id = generateUUID()
+    this.upstream.send(readyMessage)
+  }
+
+  /**
+   * Registers a handler for messages with the given name, replacing any existing handler for that name.
+   * Requests are answered automatically with a `ResponseMessage` containing the handler's result,
+   * or with an `ErrorResponseMessage` if the handler throws. Messages without a registered handler
+   * are passed to `messageReceivedCallback`.
+   * @param {string} name The name of the messages to handle (see `GeneralMessage.name`).
+   * @param {MessageHandler<T, V>} handler The function that handles the messages.
+   */
+  public handle<T, V>(name: string, handler: MessageHandler<T, V>): void {
+    this.messageHandlers.set(name, handler)
+    this.log.debug('Added handler.', { name })
+  }
+
+  /**
+   * Removes the handler for messages with the given name.
+   * @param {string} name The name of the messages to stop handling.
+   */
+  public off(name: string): void {
+    if (this.messageHandlers.delete(name)) {
+      this.log.debug('Removed handler.', { name })
     }
   }
 
-  private setupWebWorkerListener() {
-    console.log(`SERVICE[${this.messenger}] Setting up Web Worker Listener.`)
-    if (typeof self !== 'undefined' && self.addEventListener) {
-      self.addEventListener('message', (event) => {
-        this.handleMessage(event.data as GeneralMessage<any>)
-      })
+  /**
+   * Adds a Koa-style middleware that runs, in the order added, on every message sent by this service
+   * (`send`), addressed to it (`receive`) or passing through it to another messenger (`forward`).
+   * Middleware can modify or replace the message, drop it by not calling `next()`, or answer a
+   * request with `context.respond()`.
+   * @param {MiddlewareDirection} direction Which messages the middleware runs on.
+   * @param {Middleware} middleware The middleware to add.
+   * @returns {() => void} A function that removes the middleware.
+   */
+  public use(direction: MiddlewareDirection, middleware: Middleware): () => void {
+    this.middleware[direction].push(middleware)
+    this.log.debug('Added middleware.', { direction })
+
+    return () => {
+      this.middleware[direction] = this.middleware[direction].filter((m) => m !== middleware)
     }
   }
 
   /**
    * Adds a worker to the service, associating it with the given messenger.
-   * @param {Messenger} messenger The messenger identifier for the worker.
-   * @param {Worker} worker The worker to be added.
+   * If the worker crashes or exits, requests routed through it are rejected with a `WorkerCrashedError`,
+   * it is removed, and it is restarted with `options.factory` if one is given.
+   * @param {string} name The name of the worker, relative to this messenger.
+   * @param {TransportTarget} worker The Transport, or a worker or port to wrap in one.
+   * @param {AddWorkerOptions} [options] Optionally buffer messages until the worker is ready, open a shared
+   * memory channel to it, or supervise it with a factory and restart policy.
    */
-  public addWorker(name: string, worker: any) {
+  public addWorker(name: string, worker: TransportTarget, options?: AddWorkerOptions) {
     // If the worker or messenger is invalid, return early
     if (!name || !worker) {
-      console.error(`SERVICE[${this.messenger}] Unable to add worker "${name}".`)
+      this.log.error('Unable to add worker.', { worker: name })
       return
     }
 
     const workerKey = this.getWorkerKey(name)
+    let transport = toTransport(worker)
 
-    if (this.workerThreads) {
-      const workerListener = (message: GeneralMessage<any>) => {
-        console.log(`SERVICE[${this.messenger}] Message received from worker:`, message)
-        this.handleMessage(message)
-      }
-      worker.on('message', workerListener)
-      this.workerListeners.set(workerKey, workerListener)
-    } else {
-      const workerListener = (event: MessageEvent) => {
-        console.log(`SERVICE[${this.messenger}] Message received from worker:`, event.data)
-        this.handleMessage(event.data as GeneralMessage<any>)
-      }
-      worker.addEventListener('message', workerListener)
-      this.workerListeners.set(workerKey, workerListener)
+    if (options?.sharedChannel) {
+      transport = this.openSharedChannel(workerKey, transport, options.sharedChannel)
     }
 
-    this.workers.set(workerKey, worker)
+    if (options?.waitForReady) {
+      transport = new BufferedTransport(transport)
+    }
 
-    console.log(`SERVICE[${this.messenger}] Added worker "${name}".`)
-  }
+    const messageListener = transport.onMessage((message) => {
+      if (this.isLevelEnabled('debug')) {
+        this.log.debug('Message received from worker.', { worker: workerKey, message })
+      }
+      this.handleMessage(message, transport)
+    })
+    const eventListener = transport.onEvent?.((event) => {
+      this.handleWorkerEvent(workerKey, transport, event)
+    })
 
-  /**
-   * Removes a worker from the service and cleans up associated resources.
-   * @param {Worker} worker The worker to be removed.
-   */
-  public removeWorker(name: string): void {
-    const workerKey = this.getWorkerKey(name)
-    const worker = this.workers.get(workerKey)
-    const workerListener = this.workerListeners.get(workerKey)
+    this.workerListeners.set(workerKey, () => {
+      messageListener()
+      eventListener?.()
+    })
+    this.workers.set(workerKey, transport)
 
-    if (workerListener) {
-      if (this.workerThreads) {
-        worker.off('message', workerListener)
-      } else {
-        worker.removeEventListener('message', workerListener)
-      }
+    // Offer the shared channel through the buffered transport, so that it reaches a worker that listens
+    const sharedChannelOffer = this.sharedChannelOffers.get(workerKey)
+    if (sharedChannelOffer) {
+      this.sendToTransport(transport, sharedChannelOffer.message)
+    }
 
-      this.workerListeners.delete(workerKey)
-      this.workers.delete(workerKey)
-      console.log(`SERVICE[${this.messenger}] Removed worker "${name}".`)
+    if (options?.factory) {
+      this.workerSupervisors.set(workerKey, {
+        restart: () => this.addWorker(name, options.factory!(), options),
+        restartPolicy: options.restartPolicy,
+        restarts: 0,
+      })
     }
+
+    this.log.info('Added worker.', { worker: workerKey })
   }
 
   /**
-   * Cleans up all workers, listeners, and response handlers.
+   * Waits until the MessagingService of a worker announces that it is ready to receive messages.
+   * @param {Messenger} messenger The full messenger path of the worker (e.g. `/parent/child`).
+   * @returns {Promise<void>} A promise that resolves once the worker is ready, or immediately if it already is.
+   * @throws {WorkerCrashedError} If the worker crashes, exits or is removed before it is ready.
    */
-  public cleanUp(): void {
-    this.workers.forEach((worker, key) => this.removeWorker(key))
-    this.workerListeners.clear()
-    this.responseHandlers.clear()
-    this.messageReceivedCallback = () => {}
+  public whenReady(messenger: Messenger): Promise<void> {
+    const workerKey = messengerAsString(messenger)
+
+    if (this.readyWorkers.has(workerKey)) {
+      return Promise.resolve()
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const readyWaiters = this.readyWaiters.get(workerKey) ?? []
+      readyWaiters.push({ resolve, reject })
+      this.readyWaiters.set(workerKey, readyWaiters)
+    })
   }
 
   /**
-   * Sends a message to one or more destinations (workers or upstream).
-   * @param {GeneralMessage<T>} message The message to be sent.
-   * @param {Worker} [worker] Optionally specify a specific worker to send the message to.
-   * @returns {Promise<ResponseMessage<T> | null>} A promise that resolves with the response message, or null if no response is expected.
+   * Creates a worker from a script and adds it to the service, using worker threads in Node.js and
+   * Web Workers in browsers. The worker's full messenger path (e.g. `/parent/name`) is injected as
+   * `workerData.name` or `name`, so its MessagingService routes correctly, and messages sent to it
+   * are buffered until it announces that it is ready.
+   * @param {string} name The name of the worker, relative to this messenger.
+   * @param {string | URL} script The path or URL of the worker script.
+   * @param {SpawnWorkerOptions} [options] Options for the Worker constructor and an optional restart policy.
+   * @returns {Promise<SpawnedWorker>} A handle to await readiness and terminate the worker.
    */
-  public async sendMessage<T, V>(
-    message: GeneralMessage<T>,
-    worker?: any
-  ): Promise<ResponseMessage<V> | null> {
-    message.source = this.messenger
-    message.id = generateUUID()
-
-    const destinations: ((message: GeneralMessage<T>) => void)[] = []
+  public async spawnWorker(
+    name: string,
+    script: string | URL,
+    options: SpawnWorkerOptions = {}
+  ): Promise<SpawnedWorker> {
+    const workerKey = this.getWorkerKey(name)
+    const workerOptions = options.workerOptions ?? {}
 
-    console.log(`SERVICE[${this.messenger}] Available memory:`, process.availableMemory())
+    let createWorker: () => WorkerThreadsEndpoint | WebWorkerEndpoint
 
-    if (worker) {
-      console.log(
-        `SERVICE[${this.messenger}] Sending message directly to worker "${message.destination}".`
-      )
-      destinations.push(worker.postMessage.bind(worker))
-    } else if (messengerIsUpstream(this.messenger, message.destination)) {
-      console.log(
-        `SERVICE[${this.messenger}] Sending message upstream to "${message.destination}".`
-      )
-      if (this.workerThreads) {
-        if (this.workerThreads.parentPort) {
-          console.log(
-            `SERVICE[${this.messenger}] Using parentPort to send to "${message.destination}".`
-          )
-          destinations.push(
-            this.workerThreads.parentPort.postMessage.bind(this.workerThreads.parentPort)
-          )
-        } else {
-          console.error(
-            `SERVICE[${this.messenger}] No parentPort to send to "${message.destination}".`
-          )
-        }
-      } else if (typeof self !== 'undefined' && self) {
-        console.log(`SERVICE[${this.messenger}] Using self to send to "${message.destination}".`)
-        destinations.push(self.postMessage.bind(self))
-      } else {
-        console.error(
-          `SERVICE[${this.messenger}] No postMessage available to send to "${message.destination}".`
-        )
-      }
+    if (typeof process !== 'undefined' && process.versions && process.versions.node) {
+      const { Worker } = await import('worker_threads')
+      createWorker = () =>
+        new Worker(script, {
+          ...workerOptions,
+          workerData: { ...workerOptions.workerData, name: workerKey },
+        })
+    } else if (typeof Worker !== 'undefined') {
+      createWorker = () => new Worker(script, { ...workerOptions, name: workerKey })
     } else {
-      console.log(
-        `SERVICE[${this.messenger}] Sending message downstream to "${message.destination}".`
-      )
-      const here = messengerAsArray(this.messenger)
-      const there = messengerAsArray(message.destination)
-      const nextHop = there.slice(0, here.length + 1)
-      this.workers.forEach((worker, key) => {
-        if (message.broadcast) {
-          console.log(`SERVICE[${this.messenger}] Broadcasting message to worker "${key}".`)
-          destinations.push(worker.postMessage.bind(worker))
-        } else {
-          if (messengersAreEqual(message.destination, key)) {
-            console.log(`SERVICE[${this.messenger}] Sending message directly to worker "${key}".`)
-            destinations.push(worker.postMessage.bind(worker))
-          } else if (messengersAreEqual(nextHop, key)) {
-            console.log(`SERVICE[${this.messenger}] Sending message indirectly to worker "${key}" through next hop "${messengerAsString(nextHop)}".`)
-            destinations.push(worker.postMessage.bind(worker))
-          }
-        }
-      })
+      throw new Error(`SERVICE[${this.messenger}] Workers are not supported in this environment.`)
     }
 
-    if (destinations.length > 0) {
-      const sendMessagePromises = destinations.map((destination) => {
-        // If the message is a request, setup the response handle
-        if (message.type === MessageType.REQUEST) {
-          return new Promise<ResponseMessage<V>>((resolve, reject) => {
-            const responseHandler = (responseMessage: ResponseMessage<V>) => {
-              console.log(`SERVICE[${this.messenger}] Response message received:`, responseMessage)
-              // Resolve the promise with the correct response message
-              if (responseMessage.requestId === message.id) {
-                this.responseHandlers.delete(responseMessage.requestId)
-                resolve(responseMessage)
-              }
-            }
+    let worker = createWorker()
 
-            this.responseHandlers.set(message.id, responseHandler)
+    this.addWorker(name, worker, {
+      waitForReady: true,
+      factory: options.restartPolicy ? () => (worker = createWorker()) : undefined,
+      restartPolicy: options.restartPolicy,
+    })
 
-            destination(message)
-          }).then((responseMessage) => {
-            return responseMessage
-          })
-        } else {
-          // If it's not a request, just send the message without expecting a response
-          destination(message)
-          return Promise.resolve(null)
-        }
-      })
+    this.log.info('Spawned worker.', { worker: workerKey, script: String(script) })
 
-      // Await all promises and return the first valid response found
-      const responses = await Promise.all(sendMessagePromises)
-      return responses.find((response) => response !== null) || null
-    } else {
-      console.error(
-        `SERVICE[${this.messenger}] Unable to find worker "${message.destination}" for message:`,
-        message
-      )
+    const ready = this.whenReady(workerKey)
+    // A worker that crashes before it is ready rejects `ready`, which the caller may never await
+    ready.catch(() => {})
+
+    return {
+      messenger: workerKey,
+      get worker() {
+        return worker
+      },
+      ready,
+      terminate: async () => {
+        this.removeWorker(name)
+        await worker.terminate?.()
+      },
     }
+  }
 
-    return null
+  /**
+   * Adds a pool of interchangeable workers addressed by a single messenger name.
+   * Messages to the pool are load-balanced across its members, broadcasts reach every member, and
+   * responses correlate with their requests as they do for a single worker.
+   * If a member crashes or exits, the requests it was handling are rejected with a `WorkerCrashedError`,
+   * it is removed from the pool, and it is replaced following `options.restartPolicy`.
+   * @param {string} name The name of the pool, relative to this messenger.
+   * @param {WorkerPoolFactory} factory Creates each member; it receives the pool's full messenger path.
+   * @param {WorkerPoolOptions} [options] The size of the pool, how messages are balanced and how
+   *                                      crashed members are replaced.
+   * @returns {WorkerPool} The pool, which can be resized at runtime with `resize()`.
+   */
+  public addWorkerPool(
+    name: string,
+    factory: WorkerPoolFactory,
+    options?: WorkerPoolOptions
+  ): WorkerPool {
+    const workerKey = this.getWorkerKey(name)
+    const workerPool = new WorkerPool(workerKey, factory, options)
+    this.addWorker(name, workerPool)
+
+    this.workerSupervisors.set(workerKey, {
+      restart: () => workerPool.resize(workerPool.size + 1),
+      restartPolicy: options?.restartPolicy,
+      restarts: 0,
+    })
+
+    return workerPool
   }
 
   /**
-   * Handles an incoming message.
-   * @param {GeneralMessage<any>} message The message to handle.
+   * Changes the number of members in a pool added with `addWorkerPool()`.
+   * @param {string} name The name of the pool, relative to this messenger.
+   * @param {number} size The new number of members.
    */
-  private handleMessage(message: GeneralMessage<any>) {
-    // TODO: Broadcast Message Handling
-    if (message.broadcast || messengersAreEqual(message.destination, this.messenger)) {
-      if (message.type === MessageType.RESPONSE) {
-        const responseMessage = message as ResponseMessage<any>
-        const responseHandler = this.responseHandlers.get(responseMessage.requestId)
-
-        if (responseHandler) {
-          console.log(
-            `SERVICE[${this.messenger}] Calling response handler for requestId:`,
-            responseMessage.requestId
-          )
-          responseHandler(responseMessage)
-        } else {
-          console.log(
-            `SERVICE[${this.messenger}] No response handler for requestId:`,
-            responseMessage.requestId
-          )
-        }
+  public resizeWorkerPool(name: string, size: number): void {
+    const workerPool = this.workers.get(this.getWorkerKey(name))
 
-        this.responseHandlers.delete(responseMessage.requestId)
-      } else {
-        this.messageReceivedCallback(message)
-      }
-    } else {
-      console.log(`SERVICE[${this.messenger}] Forwarding message:`, message)
-      this.forwardMessage(message)
+    if (!(workerPool instanceof WorkerPool)) {
+      throw new Error(`SERVICE[${this.messenger}] Worker "${name}" is not a worker pool.`)
     }
+
+    workerPool.resize(size)
   }
 
   /**
-   * Forwards a message to its correct destination (upstream or downstream).
-   * @param {GeneralMessage<any>} message The message to forward.
+   * Adds a remote MessagingService in another process as a worker, connecting to it over a
+   * Unix domain socket or localhost TCP. The remote side accepts the connection with `acceptUpstream()`.
+   * The connection is re-established automatically if it is lost, and messages sent in the meantime
+   * are queued until it is.
+   * @param {string} name The name of the remote messenger, relative to this messenger.
+   * @param {SocketAddress} address The socket path, or TCP port and host, the remote is listening on.
+   * @param {SocketTransportOptions} [options] How to reconnect when the connection is lost, and the
+   *                                           largest frame to accept.
    */
-  private forwardMessage(message: GeneralMessage<any>) {
-    if (messengerIsUpstream(this.messenger, message.destination)) {
-      console.log(`SERVICE[${this.messenger}] Forwarding message upstream:`, message)
-      this.forwardUpstream(message)
-    } else if (messengersAreEqual(this.messenger, message.destination)) {
-      console.log(
-        `SERVICE[${this.messenger}] Forwarding message to message received callback:`,
-        message
-      )
-      this.messageReceivedCallback(message)
-    } else {
-      console.log(`SERVICE[${this.messenger}] Forwarding message downstream:`, message)
-      this.forwardDownstream(message)
-    }
+  public async addRemote(
+    name: string,
+    address: SocketAddress,
+    options?: SocketTransportOptions
+  ): Promise<void> {
+    const net = await import('net')
+
+    const connect = () =>
+      typeof address === 'string'
+        ? net.createConnection(address)
+        : net.createConnection(address.port, address.host ?? 'localhost')
+
+    this.addWorker(name, new SocketTransport(connect, options, this.log))
   }
 
   /**
-   * Forwards a message upstream (to the parent or higher level).
-   * @param {GeneralMessage<any>} message The message to forward upstream.
+   * Removes a remote added with `addRemote()` and closes its connection.
+   * @param {string} name The name of the remote messenger to be removed.
    */
-  private forwardUpstream(message: GeneralMessage<any>) {
-    if (this.workerThreads) {
-      if (this.workerThreads.parentPort) {
-        console.log(`SERVICE[${this.messenger}] Forwarding upstream as worker_threads.`)
-        this.workerThreads.parentPort?.postMessage(message)
-      } else {
-        console.error(
-          `SERVICE[${this.messenger}] No upstream parentPort to forward message:`,
-          message
-        )
-      }
-    } else {
-      console.log(`SERVICE[${this.messenger}] Forwarding upstream as web worker.`)
-      self.postMessage(message)
-    }
+  public removeRemote(name: string): void {
+    const transport = this.workers.get(this.getWorkerKey(name))
+    this.removeWorker(name)
+    transport?.close()
   }
 
   /**
-   * Forwards a message downstream (to the worker or lower level).
-   * @param {GeneralMessage<any>} message The message to forward downstream.
+   * Listens on a Unix domain socket or localhost TCP port for the parent MessagingService to connect
+   * with `addRemote()`, and uses each accepted connection as the upstream transport. A new connection
+   * replaces the previous one, which is closed.
+   * @param {SocketAddress} address The socket path, or TCP port and host, to listen on.
+   * @param {SocketTransportOptions} [options] The largest frame to accept from the parent.
+   * @returns {Promise<Server>} A promise that resolves with the listening server once it is ready.
    */
-  private forwardDownstream(message: GeneralMessage<any>) {
-    const here = messengerAsArray(this.messenger) // [w] = 1 vs [w,s,i]
-    const next = messengerAsArray(message.destination).slice(0, here.length + 1)
+  public async acceptUpstream(
+    address: SocketAddress,
+    options?: Pick<SocketTransportOptions, 'maxFrameBytes'>
+  ): Promise<Server> {
+    const net = await import('net')
 
-    console.log(`SERVICE[${this.messenger}] Forward downstream here:`, here)
-    console.log(`SERVICE[${this.messenger}] Forward downstream next:`, next)
+    const server = net.createServer((socket) => {
+      this.log.info('Accepted upstream connection.')
 
-    this.workers.forEach((worker, key) => {
-      console.log(`SERVICE[${this.messenger}] Forward downstream key:`, messengerAsArray(key))
-      if (messengersAreEqual(message.destination, key)) {
-        console.log(`SERVICE[${this.messenger}] Forwarding downstream to worker "${key}".`)
-        worker.postMessage(message)
-      } else if (messengersAreEqual(next, key)) {
-        console.log(`SERVICE[${this.messenger}] Forwarding downstream to next worker "${key}".`)
-        worker.postMessage(message)
+      if (this.upstream instanceof SocketTransport) {
+        this.upstream.close()
+      }
+
+      this.setUpstream(new SocketTransport(socket, options, this.log))
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+
+      const listening = () => {
+        server.off('error', reject)
+        resolve()
+      }
+
+      if (typeof address === 'string') {
+        server.listen(address, listening)
+      } else {
+        server.listen(address.port, address.host ?? 'localhost', listening)
       }
     })
+
+    return server
+  }
+
+  /**
+   * Removes a worker from the service and cleans up associated resources.
+   * The worker's transport is left open so the caller can decide whether to terminate it.
+   * @param {string} name The name of the worker to be removed.
+   */
+  public removeWorker(name: string): void {
+    const workerKey = this.getWorkerKey(name)
+
+    this.stopSupervising(workerKey)
+
+    if (this.detachWorker(workerKey)) {
+      this.log.info('Removed worker.', { worker: workerKey })
+    }
+  }
+
+  /**
+   * Cleans up all workers, listeners, and response handlers.
+   * Any requests still waiting for a response are rejected with a `RequestAbortedError`.
+   */
+  public cleanUp(): void {
+    // The keys are full messenger paths, which removeWorker() would prefix with this messenger again
+    this.workerSupervisors.forEach((supervisor, workerKey) => this.stopSupervising(workerKey))
+    this.workers.forEach((worker, workerKey) => {
+      if (this.detachWorker(workerKey)) {
+        this.log.info('Removed worker.', { worker: workerKey })
+      }
+    })
+    this.workerListeners.clear()
+    this.responseHandlers.forEach((responseHandler, requestId) =>
+      responseHandler.reject(new RequestAbortedError(requestId, 'MessagingService cleaned up.'))
+    )
+    this.responseHandlers.clear()
+    this.relayedRequests.clear()
+    this.activeRequests.forEach((controller) => controller.abort())
+    this.activeRequests.clear()
+    this.messageHandlers.clear()
+    this.middleware = { send: [], receive: [], forward: [] }
+    this.messageReceivedCallback = () => {}
+  }
+
+  /**
+   * Takes a snapshot of the service's metrics: message counts by name, destination and outcome, request
+   * latency histograms, the number of pending requests and the queue depth of each worker.
+   * Format it with `formatPrometheusMetrics()` to expose it to Prometheus.
+   * @returns {MessagingServiceMetrics} The snapshot.
+   */
+  public getMetrics(): MessagingServiceMetrics {
+    return {
+      messenger: messengerAsString(this.messenger),
+      messages: this.metrics.getCounters(),
+      requests: this.metrics.getHistograms(),
+      pendingRequests: this.responseHandlers.size,
+      workers: Array.from(this.workers, ([worker, transport]) => ({
+        worker,
+        queueDepth: transport.queueLength ?? 0,
+      })),
+    }
+  }
+
+  /**
+   * Resets the message counts and request latency histograms.
+   */
+  public resetMetrics(): void {
+    this.metrics.reset()
+  }
+
+  /**
+   * Sends a message to one or more destinations (workers or upstream).
+   * For compatibility with the former `sendMessage(message, worker)` signature, a worker or Transport
+   * passed instead of the options is treated as `{ worker }`.
+   * @param {GeneralMessage<T>} message The message to be sent.
+   * @param {SendMessageOptions} [options] Optionally specify a worker, response timeout, abort signal or progress callback.
+   * @returns {Promise<ResponseMessage<T> | null>} A promise that resolves with the response message, or null if no response is expected
+   * or the message was dropped by middleware.
+   * @throws {RequestTimeoutError} If a request does not receive a response before the timeout elapses.
+   * @throws {RequestAbortedError} If the signal aborts a request before its response arrives.
+   * @throws {RemoteError} If the request is answered with an `ErrorResponseMessage`.
+   */
+  public async sendMessage<T, V>(
+    message: GeneralMessage<T>,
+    options: SendMessageOptions = {}
+  ): Promise<ResponseMessage<V> | null> {
+    if (isWorkerLike(options)) {
+      this.log.warn('Passing a worker to sendMessage() is deprecated, pass { worker } instead.')
+      options = { worker: options }
+    }
+
+    return this.send<V>(message, options)
+  }
+
+  /**
+   * Broadcasts a request to every messenger in a subtree and collects their responses, unlike
+   * `sendMessage()` which resolves with the first response only. Gathering completes when the
+   * `quorum` of successful responses is reached, when every `expected` messenger has responded or
+   * when the timeout elapses. This service does not respond to its own request.
+   * @param {RequestMessage<T>} request The request to broadcast.
+   * @param {GatherOptions} [options] The subtree, expected messengers, quorum, timeout and abort signal.
+   * @returns {Promise<GatherResult<V>>} A promise that resolves with the responses and errors with their
+   * sources, and the expected messengers that did not respond.
+   * @throws {RequestAbortedError} If the signal aborts gathering.
+   */
+  public async gather<T, V>(
+    request: RequestMessage<T>,
+    options: GatherOptions = {}
+  ): Promise<GatherResult<V>> {
+    const { scope, quorum, signal, headers } = options
+    const expected = (options.expected ?? []).map((messenger) => messengerAsString(messenger))
+    const timeoutMs = options.timeoutMs ?? this.requestTimeoutMs ?? DEFAULT_GATHER_TIMEOUT_MS
+
+    request.broadcast = true
+    if (scope !== undefined) {
+      request.destination = scope
+    }
+
+    let gathering: Promise<GatherResult<V>> | undefined
+    const response = await this.send<V>(request, { timeoutMs, signal, headers }, (message) => {
+      gathering = this.collectResponses<V>(message, expected, quorum, timeoutMs, signal)
+      // Send middleware can still throw after the request went out, leaving gathering unawaited
+      gathering.catch(() => {})
+    })
+
+    if (gathering) {
+      return gathering
+    }
+
+    // The request was not broadcast, e.g. because middleware dropped or answered it
+    const responses = response
+      ? [{ source: messengerAsString(response.source), response } as GatheredResponse<V>]
+      : []
+    return {
+      responses,
+      errors: [],
+      missing: expected.filter((source) => !responses.some((r) => r.source === source)),
+      timedOut: false,
+    }
+  }
+
+  /**
+   * Sends a request whose handler returns an async iterable (e.g. an async generator) and yields the
+   * data of each chunk it produces in the order it produced them. The stream ends once every chunk
+   * counted by the handler's `StreamEndMessage` has been yielded. The timeout applies to the wait for
+   * each chunk.
+   * When the consumer stops iterating early, or the timeout elapses or the signal aborts, the
+   * request is cancelled and the handler's iterable is closed.
+   * If the handler returns a plain value instead, it is yielded as the only chunk.
+   * @param {RequestMessage<T>} request The request to send.
+   * @param {SendMessageOptions} [options] Optionally specify a worker, timeout per chunk or abort signal.
+   * @returns {AsyncGenerator<V, void, undefined>} The data of the chunks.
+   * @throws {RequestTimeoutError} If no chunk arrives before the timeout elapses.
+   * @throws {RequestAbortedError} If the signal aborts the stream.
+   * @throws {RemoteError} If the handler fails.
+   */
+  public async *stream<T, V>(
+    request: RequestMessage<T>,
+    options: SendMessageOptions = {}
+  ): AsyncGenerator<V, void, undefined> {
+    const { signal } = options
+    const timeoutMs = options.timeoutMs ?? this.requestTimeoutMs
+
+    const received: ResponseMessage<any>[] = []
+    let failure: Error | undefined
+    let notify: (() => void) | undefined
+    let streaming = false
+
+    request.stream = true
+
+    const response = await this.send<V>(request, options, (message, route) => {
+      streaming = true
+      this.responseHandlers.set(message.id, {
+        resolve: (responseMessage: ResponseMessage<any>) => {
+          received.push(responseMessage)
+          notify?.()
+        },
+        reject: (error: Error) => {
+          failure = error
+          notify?.()
+        },
+        progress: this.createProgressListener(options),
+        route,
+      })
+    })
+
+    if (!streaming) {
+      // The request was not sent, e.g. because middleware dropped or answered it
+      if (response) {
+        yield response.data as V
+      }
+      return
+    }
+
+    const requestId = request.id
+    // Chunks are yielded in sequence, whatever order the transports deliver them in
+    const chunks: Map<number, V> = new Map()
+    let nextSequence = 0
+    let chunkCount: number | undefined
+    let responder: Messenger | undefined = undefined
+    let ended = false
+    let cancel = false
+
+    const waitForChunk = () =>
+      new Promise<void>((resolve) => {
+        const done = () => {
+          clearTimeout(timeout)
+          signal?.removeEventListener('abort', onAbort)
+          notify = undefined
+          resolve()
+        }
+        const onAbort = () => {
+          this.log.debug('Stream aborted.', { requestId })
+          failure = new RequestAbortedError(requestId, signal?.reason)
+          cancel = true
+          done()
+        }
+        const timeout =
+          timeoutMs === undefined
+            ? undefined
+            : setTimeout(() => {
+                this.log.debug('Stream timed out.', { requestId, timeoutMs })
+                failure = new RequestTimeoutError(requestId, timeoutMs)
+                cancel = true
+                done()
+              }, timeoutMs)
+
+        notify = done
+        signal?.addEventListener('abort', onAbort)
+      })
+
+    try {
+      while (true) {
+        if (signal?.aborted && !failure) {
+          failure = new RequestAbortedError(requestId, signal.reason)
+          cancel = true
+        }
+        if (failure) {
+          throw failure
+        }
+
+        if (chunkCount !== undefined && nextSequence >= chunkCount) {
+          ended = true
+          return
+        }
+
+        if (chunks.has(nextSequence)) {
+          const data = chunks.get(nextSequence)
+          chunks.delete(nextSequence++)
+          yield data as V
+          continue
+        }
+
+        const message = received.shift()
+        if (!message) {
+          await waitForChunk()
+          continue
+        }
+
+        responder = message.source
+        if (message.type === MessageType.STREAM_END) {
+          // Chunks that the end overtook are still on their way
+          chunkCount = message.data as number
+          continue
+        }
+
+        if (message.type === MessageType.RESPONSE) {
+          // The handler returned a plain value
+          yield message.data
+          ended = true
+          return
+        }
+
+        chunks.set((message as StreamChunkMessage<V>).sequence, message.data)
+      }
+    } finally {
+      this.responseHandlers.delete(requestId)
+      // Stop the handler if the consumer stopped early, or the timeout elapsed or the signal aborted
+      if (!ended && (!failure || cancel)) {
+        this.cancelRequest(request, failure?.message ?? 'Stopped iterating.', responder)
+      }
+    }
+  }
+
+  /**
+   * Prepares a message for sending and sends it through the send middleware.
+   * @param {GeneralMessage<any>} message The message to be sent.
+   * @param {SendMessageOptions} options The worker, response timeout or abort signal for the message.
+   * @param {ResponseCollector} [collect] Collects every response to a request, instead of waiting for the first.
+   * @returns {Promise<ResponseMessage<V> | null>} A promise that resolves with the response message, or null if no response is expected,
+   * the message was dropped by middleware or its responses are collected.
+   */
+  private async send<V>(
+    message: GeneralMessage<any>,
+    options: SendMessageOptions,
+    collect?: ResponseCollector
+  ): Promise<ResponseMessage<V> | null> {
+    const { transfer, headers } = options
+
+    message.source = this.messenger
+    message.id = generateUUID()
+    message.hops = 0
+    message.visited = [messengerAsString(this.messenger)]
+
+    // Metadata filled in by a previous send of the same message (e.g. a retry after a timeout) is
+    // recomputed, while metadata set by the caller is kept
+    const previous = this.filledMetadata.get(message)
+    if (previous?.timestamp !== undefined && message.timestamp === previous.timestamp) {
+      message.timestamp = undefined
+    }
+    if (previous?.correlationId !== undefined && message.correlationId === previous.correlationId) {
+      message.correlationId = undefined
+    }
+    if (previous?.expiresAt !== undefined && message.expiresAt === previous.expiresAt) {
+      message.expiresAt = undefined
+    }
+
+    const filled: FilledMetadata = {}
+    if (message.timestamp === undefined) {
+      message.timestamp = filled.timestamp = Date.now()
+    }
+    if (message.correlationId === undefined) {
+      message.correlationId = filled.correlationId = message.id
+    }
+
+    const timeoutMs = options.timeoutMs ?? this.requestTimeoutMs
+    if (
+      message.type === MessageType.REQUEST &&
+      timeoutMs !== undefined &&
+      message.expiresAt === undefined
+    ) {
+      message.expiresAt = filled.expiresAt = message.timestamp + timeoutMs
+    }
+    this.filledMetadata.set(message, filled)
+
+    if (headers) {
+      message.headers = { ...message.headers, ...headers }
+    }
+
+    if (options.onProgress && message instanceof RequestMessage) {
+      message.reportProgress = true
+    }
+
+    if (transfer) {
+      message.transfer = transfer
+    }
+
+    const endSpan = this.startSpan('send', message)
+    const startTime = performance.now()
+    const isRequest = message.type === MessageType.REQUEST
+
+    try {
+      const response = await this.runSendMiddleware<V>(message, options, collect)
+      if (isRequest && response) {
+        this.observeRequest(message, startTime, false)
+      }
+      endSpan()
+      return response
+    } catch (error) {
+      if (isRequest) {
+        this.observeRequest(message, startTime, true)
+      }
+      endSpan(error)
+      throw error
+    }
+  }
+
+  /**
+   * Runs the send middleware around the delivery of a message.
+   * @param {GeneralMessage<any>} message The message to send.
+   * @param {SendMessageOptions} options The worker, response timeout or abort signal for the message.
+   * @param {ResponseCollector} [collect] Collects every response to a request, instead of waiting for the first.
+   * @returns {Promise<ResponseMessage<V> | null>} A promise that resolves with the response message, or null if no response is expected
+   * or the message was dropped by middleware.
+   */
+  private async runSendMiddleware<V>(
+    message: GeneralMessage<any>,
+    options: SendMessageOptions,
+    collect?: ResponseCollector
+  ): Promise<ResponseMessage<V> | null> {
+    if (this.middleware.send.length === 0) {
+      return this.deliverMessage(message, options, collect)
+    }
+
+    const context = this.createMiddlewareContext('send', message)
+    let delivered = false
+
+    await composeMiddleware([...this.middleware.send])(context, async () => {
+      delivered = true
+      context.response = await this.deliverMessage(context.message, options, collect)
+    })
+
+    if (!delivered && !context.response) {
+      this.countMessage('dropped', context.message)
+    }
+
+    return context.response ?? null
+  }
+
+  /**
+   * Routes a message to its destinations and waits for its response if it is a request.
+   * @param {GeneralMessage<any>} message The message to deliver.
+   * @param {SendMessageOptions} options The worker, response timeout or abort signal for the message.
+   * @param {ResponseCollector} [collect] Collects every response to a request, instead of waiting for the first.
+   * @returns {Promise<ResponseMessage<V> | null>} A promise that resolves with the response message, or null if no response is expected
+   * or its responses are collected.
+   */
+  private async deliverMessage<V>(
+    message: GeneralMessage<any>,
+    options: SendMessageOptions,
+    collect?: ResponseCollector
+  ): Promise<ResponseMessage<V> | null> {
+    const { worker, signal } = options
+
+    if (message.type === MessageType.REQUEST && signal?.aborted) {
+      // Nobody waits for the response, so the handler is not started at all
+      this.log.debug('Request aborted before it was sent.', { requestId: message.id })
+      throw new RequestAbortedError(message.id, signal.reason)
+    }
+
+    const destinations: Transport[] = []
+    const routes: string[] = []
+
+    if (message.broadcast) {
+      this.markBroadcastSeen(message.id)
+    }
+
+    if (worker) {
+      this.log.debug('Sending message directly to worker.', { destination: message.destination })
+      destinations.push(toTransport(worker))
+    } else if (message.broadcast && messengerIsWithin(this.messenger, message.destination)) {
+      this.log.debug('Broadcasting message.', { destination: message.destination })
+      destinations.push(...this.getBroadcastTargets(message))
+
+      if (destinations.length === 0) {
+        this.log.debug('No other messengers to broadcast to.', { destination: message.destination })
+        return null
+      }
+    } else if (messengerIsUpstream(this.messenger, message.destination, this.log)) {
+      this.log.debug('Sending message upstream.', { destination: message.destination })
+      if (this.upstream) {
+        destinations.push(this.upstream)
+      } else {
+        this.log.error('No upstream transport to send to.', { destination: message.destination })
+      }
+    } else {
+      this.log.debug('Sending message downstream.', { destination: message.destination })
+      const here = messengerAsArray(this.messenger)
+      const there = messengerAsArray(message.destination)
+      const nextHop = there.slice(0, here.length + 1)
+      this.workers.forEach((worker, key) => {
+        if (messengersAreEqual(message.destination, key)) {
+          this.log.debug('Sending message directly to worker.', { worker: key })
+          destinations.push(worker)
+          routes.push(key)
+        } else if (messengersAreEqual(nextHop, key)) {
+          this.log.debug('Sending message indirectly through next hop.', {
+            worker: key,
+            destination: message.destination,
+          })
+          destinations.push(worker)
+          routes.push(key)
+        }
+      })
+    }
+
+    if (destinations.length > 0) {
+      // If the message is a request, setup the response handler before sending
+      let responsePromise: Promise<ResponseMessage<V>> | null = null
+      if (message.type === MessageType.REQUEST) {
+        const route = routes.length === 1 ? routes[0] : undefined
+        if (collect) {
+          collect(message, route)
+        } else {
+          responsePromise = this.awaitResponse<V>(message, options, route)
+        }
+      }
+
+      // Transferred objects can only be sent once, so messages to several destinations are copied
+      if (destinations.length > 1 && message.transfer) {
+        this.log.warn('Copying instead of transferring message sent to several destinations.', {
+          name: message.name,
+          destinations: destinations.length,
+        })
+        delete message.transfer
+      }
+
+      const sent = destinations.filter((destination) => this.sendToTransport(destination, message))
+
+      if (sent.length === 0) {
+        // Remove the response handler of a request that could not be sent, rejecting its promise
+        this.responseHandlers
+          .get(message.id)
+          ?.reject(new Error(`Unable to send message "${message.name}".`))
+        this.deadLetter(message, 'no-route')
+        return responsePromise
+      }
+
+      this.countMessage('sent', message)
+
+      // Resolve with the first response received, or null if no response is expected
+      return responsePromise
+    } else {
+      this.deadLetter(message, 'no-route')
+    }
+
+    return null
+  }
+
+  /**
+   * Registers a response handler for a request and returns a promise for its response.
+   * The handler is removed from `responseHandlers` when the response arrives, the timeout elapses
+   * or the signal aborts, so abandoned requests do not leak.
+   * @param {GeneralMessage<any>} message The request message waiting for a response.
+   * @param {SendMessageOptions} options The timeout and abort signal for the request.
+   * @param {string} [route] The key of the worker the request was sent through, if it went to exactly one.
+   * @returns {Promise<ResponseMessage<V>>} A promise that resolves with the response message.
+   */
+  private awaitResponse<V>(
+    message: GeneralMessage<any>,
+    options: SendMessageOptions,
+    route?: string
+  ): Promise<ResponseMessage<V>> {
+    const requestId = message.id
+    const timeoutMs = options.timeoutMs ?? this.requestTimeoutMs
+    const signal = options.signal
+
+    return new Promise<ResponseMessage<V>>((resolve, reject) => {
+      let timeout: ReturnType<typeof setTimeout> | undefined = undefined
+
+      const onAbort = () => {
+        this.log.debug('Request aborted.', { requestId })
+        settle()
+        const error = new RequestAbortedError(requestId, signal?.reason)
+        this.cancelRequest(message as RequestMessage<any>, error.message)
+        reject(error)
+      }
+
+      const settle = () => {
+        if (timeout !== undefined) {
+          clearTimeout(timeout)
+        }
+        signal?.removeEventListener('abort', onAbort)
+        this.responseHandlers.delete(requestId)
+      }
+
+      this.responseHandlers.set(requestId, {
+        resolve: (responseMessage: ResponseMessage<any>) => {
+          if (this.isLevelEnabled('debug')) {
+            this.log.debug('Response message received.', { requestId, message: responseMessage })
+          }
+          settle()
+          resolve(responseMessage)
+        },
+        reject: (error: Error) => {
+          settle()
+          reject(error)
+        },
+        progress: this.createProgressListener(options),
+        route,
+      })
+
+      if (timeoutMs !== undefined) {
+        timeout = setTimeout(() => {
+          this.log.debug('Request timed out.', { requestId, timeoutMs })
+          settle()
+          const error = new RequestTimeoutError(requestId, timeoutMs)
+          this.cancelRequest(message as RequestMessage<any>, error.message)
+          reject(error)
+        }, timeoutMs)
+      }
+
+      signal?.addEventListener('abort', onAbort)
+    })
+  }
+
+  /**
+   * Registers a response handler that collects every response to a request until gathering completes.
+   * @param {GeneralMessage<any>} message The request message waiting for responses.
+   * @param {string[]} expected The messengers expected to respond.
+   * @param {number | undefined} quorum The number of successful responses that completes gathering.
+   * @param {number} timeoutMs The number of milliseconds to collect responses for.
+   * @param {AbortSignal} [signal] A signal that stops gathering.
+   * @returns {Promise<GatherResult<V>>} A promise that resolves with the collected responses.
+   */
+  private collectResponses<V>(
+    message: GeneralMessage<any>,
+    expected: string[],
+    quorum: number | undefined,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<GatherResult<V>> {
+    const requestId = message.id
+    const responses: GatheredResponse<V>[] = []
+    const errors: GatheredError[] = []
+    const missing = new Set(expected)
+
+    return new Promise<GatherResult<V>>((resolve, reject) => {
+      const onAbort = () => {
+        this.log.debug('Gathering aborted.', { requestId })
+        settle()
+        const error = new RequestAbortedError(requestId, signal?.reason)
+        this.cancelRequest(message as RequestMessage<any>, error.message)
+        reject(error)
+      }
+
+      const timeout = setTimeout(() => {
+        this.log.debug('Gathering timed out.', { requestId, timeoutMs, missing: missing.size })
+        complete(true)
+        this.cancelRequest(message as RequestMessage<any>, 'Gathering timed out.')
+      }, timeoutMs)
+
+      const settle = () => {
+        clearTimeout(timeout)
+        signal?.removeEventListener('abort', onAbort)
+        this.responseHandlers.delete(requestId)
+      }
+
+      const complete = (timedOut: boolean) => {
+        settle()
+        resolve({ responses, errors, missing: Array.from(missing), timedOut })
+      }
+
+      const isComplete = () =>
+        (quorum !== undefined && responses.length >= quorum) ||
+        (expected.length > 0 && missing.size === 0)
+
+      this.responseHandlers.set(requestId, {
+        resolve: (responseMessage: ResponseMessage<any>) => {
+          if (this.isLevelEnabled('debug')) {
+            this.log.debug('Response message gathered.', { requestId, message: responseMessage })
+          }
+          const source = messengerAsString(responseMessage.source)
+          missing.delete(source)
+          responses.push({ source, response: responseMessage })
+          if (isComplete()) {
+            complete(false)
+            if (quorum !== undefined && responses.length >= quorum) {
+              // Stop the handlers that have not responded yet, as their responses are not needed
+              this.cancelRequest(message as RequestMessage<any>, 'Quorum reached.')
+            }
+          }
+        },
+        reject: (error: Error) => {
+          if (!(error instanceof RemoteError)) {
+            settle()
+            reject(error)
+            return
+          }
+          const source = messengerAsString(error.source)
+          missing.delete(source)
+          errors.push({ source, error })
+          if (isComplete()) {
+            complete(false)
+          }
+        },
+      })
+
+      signal?.addEventListener('abort', onAbort)
+    })
+  }
+
+  /**
+   * Handles an incoming message.
+   * @param {GeneralMessage<any>} message The message to handle.
+   * @param {Transport} [from] The transport the message arrived on (a worker's or the upstream).
+   */
+  private handleMessage(message: GeneralMessage<any>, from?: Transport) {
+    // Restore the prototypes stripped by structured cloning
+    message = reviveMessage(message)
+
+    if (message.type === MessageType.READY) {
+      this.handleReady(message)
+      return
+    }
+
+    if (message.type === MessageType.SHARED_CHANNEL) {
+      if (from !== undefined && from === this.upstream) {
+        this.acceptSharedChannel(message)
+      } else {
+        this.handleSharedChannelAccepted(message)
+      }
+      return
+    }
+
+    if (message.expiresAt !== undefined && Date.now() > message.expiresAt) {
+      this.deadLetter(message, 'expired')
+      return
+    }
+
+    if (message.broadcast) {
+      this.handleBroadcast(message, from)
+    } else if (messengersAreEqual(message.destination, this.messenger)) {
+      this.runMiddleware('receive', message, (message) => this.receiveMessage(message))
+    } else {
+      this.relayMessage(message, (message) => this.forwardMessage(message))
+    }
+  }
+
+  /**
+   * Handles an incoming broadcast. The `destination` of a broadcast is the root of the subtree it is
+   * delivered to: outside that subtree it is routed towards the root like any other message, and
+   * within it every messenger handles it once and passes it on to its workers and, below the root,
+   * its upstream, except for the one it arrived from.
+   * @param {GeneralMessage<any>} message The broadcast message.
+   * @param {Transport} [from] The transport the message arrived on.
+   */
+  private handleBroadcast(message: GeneralMessage<any>, from?: Transport) {
+    if (this.markBroadcastSeen(message.id)) {
+      this.log.debug('Ignoring broadcast that was already handled.', { id: message.id })
+      return
+    }
+
+    if (!messengerIsWithin(this.messenger, message.destination)) {
+      this.relayMessage(message, (message) => this.forwardMessage(message))
+      return
+    }
+
+    const targets = this.getBroadcastTargets(message, from)
+
+    if (targets.length > 0) {
+      // Pass on a copy, so that the local handlers do not see the changes made while relaying it
+      const copy = Object.assign(Object.create(Object.getPrototypeOf(message)), message)
+
+      this.relayMessage(copy, (message) => {
+        if (targets.length > 1) {
+          delete message.transfer
+        }
+        if (targets.filter((target) => this.sendToTransport(target, message)).length > 0) {
+          this.countMessage('forwarded', message)
+        } else {
+          this.deadLetter(message, 'no-route')
+        }
+      })
+    }
+
+    this.runMiddleware('receive', message, (message) => this.receiveMessage(message))
+  }
+
+  /**
+   * Gets the transports to pass a broadcast on to from this messenger: every worker and, unless this
+   * messenger is the root of the broadcast, the upstream.
+   * @param {GeneralMessage<any>} message The broadcast message.
+   * @param {Transport} [from] The transport the message arrived on, which is excluded.
+   * @returns {Transport[]} The transports to send the broadcast to.
+   */
+  private getBroadcastTargets(message: GeneralMessage<any>, from?: Transport): Transport[] {
+    const targets = Array.from(this.workers.values())
+
+    if (this.upstream && !messengersAreEqual(this.messenger, message.destination)) {
+      targets.push(this.upstream)
+    }
+
+    return targets.filter((target) => target !== from)
+  }
+
+  /**
+   * Remembers the id of a broadcast, so that it is only handled once even if it arrives again.
+   * @param {UUIDTypes} id The id of the broadcast message.
+   * @returns {boolean} `true` if the broadcast was already seen, otherwise `false`.
+   */
+  private markBroadcastSeen(id: UUIDTypes): boolean {
+    if (this.seenBroadcasts.has(id)) {
+      return true
+    }
+
+    this.seenBroadcasts.add(id)
+
+    if (this.seenBroadcasts.size > BROADCAST_HISTORY_SIZE) {
+      this.seenBroadcasts.delete(this.seenBroadcasts.values().next().value!)
+    }
+
+    return false
+  }
+
+  /**
+   * Passes a message through this service on its way to other messengers: records the hop, then
+   * runs the forward middleware and sends the message on inside a `forward` span.
+   * @param {GeneralMessage<any>} message The message to relay.
+   * @param {(message: GeneralMessage<any>) => void} send Sends the message on after the middleware.
+   */
+  private relayMessage(message: GeneralMessage<any>, send: (message: GeneralMessage<any>) => void) {
+    if (!this.recordHop(message)) {
+      return
+    }
+
+    if (this.isLevelEnabled('debug')) {
+      this.log.debug('Forwarding message.', { message })
+    }
+    const endSpan = this.startSpan('forward', message)
+    this.runMiddleware('forward', message, send).then(() => endSpan())
+  }
+
+  /**
+   * Handles a message addressed to this service: settles the pending request of a response, reports
+   * a progress update, aborts the handler of a cancelled request, or dispatches any other message to its handler.
+   * @param {GeneralMessage<any>} message The message to receive.
+   */
+  private receiveMessage(message: GeneralMessage<any>) {
+    this.countMessage('received', message)
+
+    if (message.type === MessageType.CANCEL) {
+      this.handleCancel(message as CancelMessage)
+    } else if (message.type === MessageType.PROGRESS) {
+      const progressMessage = message as ProgressMessage
+      const responseHandler = this.responseHandlers.get(progressMessage.requestId)
+
+      if (responseHandler?.progress) {
+        responseHandler.progress(progressMessage)
+      } else {
+        this.log.debug('No progress listener.', { requestId: progressMessage.requestId })
+      }
+    } else if (
+      message.type === MessageType.RESPONSE ||
+      message.type === MessageType.ERROR ||
+      message.type === MessageType.STREAM_CHUNK ||
+      message.type === MessageType.STREAM_END
+    ) {
+      const responseMessage = message as ResponseMessage<any>
+      const responseHandler = this.responseHandlers.get(responseMessage.requestId)
+
+      if (responseHandler) {
+        this.log.debug('Calling response handler.', { requestId: responseMessage.requestId })
+        if (message.type === MessageType.ERROR) {
+          const errorMessage = message as ErrorResponseMessage
+          responseHandler.reject(
+            new RemoteError(errorMessage.data!, errorMessage.source, errorMessage.requestId)
+          )
+        } else {
+          responseHandler.resolve(responseMessage)
+        }
+      } else {
+        this.log.debug('No response handler.', { requestId: responseMessage.requestId })
+      }
+    } else {
+      this.dispatchMessage(message)
+    }
+  }
+
+  /**
+   * Runs the middleware for a received or forwarded message, then passes the message on.
+   * Responses set with `context.respond()` are sent back to the requester, and requests whose
+   * middleware throws are answered with an `ErrorResponseMessage`.
+   * @param {'receive' | 'forward'} direction Whether the message is addressed to this service or passing through it.
+   * @param {GeneralMessage<any>} message The message to handle.
+   * @param {(message: GeneralMessage<any>) => void} next Passes the message on after the middleware.
+   * @returns {Promise<void>} A promise that resolves once the middleware has finished.
+   */
+  private runMiddleware(
+    direction: 'receive' | 'forward',
+    message: GeneralMessage<any>,
+    next: (message: GeneralMessage<any>) => void
+  ): Promise<void> {
+    if (this.middleware[direction].length === 0) {
+      next(message)
+      return Promise.resolve()
+    }
+
+    const context = this.createMiddlewareContext(direction, message)
+    let passed = false
+
+    const middleware = composeMiddleware([...this.middleware[direction]])
+
+    return middleware(context, () => {
+      passed = true
+      next(context.message)
+    }).then(
+      () => {
+        if (context.response) {
+          this.sendWithoutWaiting(context.response)
+        } else if (!passed) {
+          this.countMessage('dropped', context.message)
+        }
+      },
+      (error) => {
+        this.log.error('Middleware failed.', { direction, name: message.name, error })
+        if (!passed) {
+          this.countMessage('dropped', context.message)
+        }
+        if (context.message.type === MessageType.REQUEST) {
+          this.sendWithoutWaiting(
+            new ErrorResponseMessage(context.message as RequestMessage<any>, error)
+          )
+        }
+      }
+    )
+  }
+
+  /**
+   * Creates the context shared by the middleware handling a message.
+   * @param {MiddlewareDirection} direction Where the middleware is running.
+   * @param {GeneralMessage<any>} message The message being handled.
+   * @returns {MiddlewareContext} The context.
+   */
+  private createMiddlewareContext(
+    direction: MiddlewareDirection,
+    message: GeneralMessage<any>
+  ): MiddlewareContext {
+    const messenger = this.messenger
+
+    return {
+      direction,
+      messenger,
+      message,
+      respond(data?: any) {
+        if (this.message.type !== MessageType.REQUEST) {
+          throw new Error(
+            `SERVICE[${messenger}] Unable to respond to "${this.message.name}", it is not a request.`
+          )
+        }
+
+        this.response = new ResponseMessage(
+          this.message.name,
+          this.message as RequestMessage<any>,
+          data
+        )
+        this.response.source = messenger
+      },
+    }
+  }
+
+  /**
+   * Dispatches a message addressed to this service to its registered handler, or to
+   * `messageReceivedCallback` if no handler is registered for its name. A request whose handler or
+   * callback fails is answered with an `ErrorResponseMessage`.
+   * @param {GeneralMessage<any>} message The message to dispatch.
+   */
+  private dispatchMessage(message: GeneralMessage<any>) {
+    const messageHandler = this.messageHandlers.get(message.name)
+    const endSpan = this.startSpan('handle', message)
+
+    if (!messageHandler) {
+      try {
+        this.messageReceivedCallback(message)
+        endSpan()
+      } catch (error) {
+        endSpan(error)
+        this.log.error('Message received callback failed.', { name: message.name, error })
+        if (message.type === MessageType.REQUEST) {
+          this.sendWithoutWaiting(new ErrorResponseMessage(message as RequestMessage<any>, error))
+        }
+      }
+      return
+    }
+
+    this.log.debug('Calling handler.', { name: message.name })
+
+    const request = message.type === MessageType.REQUEST ? (message as RequestMessage<any>) : null
+    const requestKey = getRequestKey(message.source, message.id)
+    const controller = new AbortController()
+    const { signal } = controller
+
+    // Track requests, so that their handlers can be aborted when the requester cancels them
+    if (request) {
+      this.activeRequests.set(requestKey, controller)
+    }
+
+    Promise.resolve()
+      .then(() => messageHandler(message.data, message, this.createHandlerContext(message, signal)))
+      .then((result) => {
+        if (!request) {
+          return
+        }
+        if (isAsyncIterable(result)) {
+          return this.streamResponse(request, result, signal)
+        }
+        if (signal.aborted) {
+          this.log.debug('Not responding to cancelled request.', { name: message.name })
+          return
+        }
+        this.sendWithoutWaiting(new ResponseMessage(message.name, request, result))
+      })
+      .then(
+        () => endSpan(),
+        (error) => {
+          endSpan(error)
+          if (signal.aborted) {
+            this.log.debug('Handler of cancelled request failed.', { name: message.name, error })
+            return
+          }
+          this.log.error('Handler failed.', { name: message.name, error })
+          if (request) {
+            this.sendWithoutWaiting(new ErrorResponseMessage(request, error))
+          }
+        }
+      )
+      .finally(() => {
+        if (this.activeRequests.get(requestKey) === controller) {
+          this.activeRequests.delete(requestKey)
+        }
+      })
+  }
+
+  /**
+   * Creates the context a handler is called with for a message.
+   * @param {GeneralMessage<any>} message The message being handled.
+   * @param {AbortSignal} signal The signal that aborts when the request is cancelled.
+   * @returns {HandlerContext} The context.
+   */
+  private createHandlerContext(message: GeneralMessage<any>, signal: AbortSignal): HandlerContext {
+    const request = message as RequestMessage<any>
+    const reportProgress = message.type === MessageType.REQUEST && request.reportProgress === true
+
+    return {
+      signal,
+      progress: (update) => {
+        if (reportProgress) {
+          this.sendWithoutWaiting(new ProgressMessage(request, update))
+        }
+      },
+    }
+  }
+
+  /**
+   * Creates the listener that passes the progress updates of a request to its `onProgress` callback.
+   * @param {SendMessageOptions} options The options the request was sent with.
+   * @returns {((message: ProgressMessage) => void) | undefined} The listener, or `undefined` if there is no callback.
+   */
+  private createProgressListener(
+    options: SendMessageOptions
+  ): ((message: ProgressMessage) => void) | undefined {
+    const { onProgress } = options
+
+    if (!onProgress) {
+      return undefined
+    }
+
+    return (message) => {
+      try {
+        onProgress(message.data!, message)
+      } catch (error) {
+        this.log.error('Progress callback failed.', { requestId: message.requestId, error })
+      }
+    }
+  }
+
+  /**
+   * Sends the values of a handler's async iterable in reply to a request. Requests sent with
+   * `stream()` get a `StreamChunkMessage` per value followed by a `StreamEndMessage`, until the
+   * requester cancels the request. Other requests get all the values as the array of one response.
+   * @param {RequestMessage<any>} request The request being handled.
+   * @param {AsyncIterable<any>} iterable The result of the handler.
+   * @param {AbortSignal} signal The signal that aborts when the request is cancelled, which closes the iterable.
+   * @returns {Promise<void>} A promise that resolves once the values have been sent, or rejects if the
+   * iterable throws.
+   */
+  private async streamResponse(
+    request: RequestMessage<any>,
+    iterable: AsyncIterable<any>,
+    signal: AbortSignal
+  ): Promise<void> {
+    const iterator = iterable[Symbol.asyncIterator]()
+    const values: any[] = []
+    let sequence = 0
+
+    while (!signal.aborted) {
+      const { value, done } = await iterator.next()
+      if (done || signal.aborted) {
+        break
+      }
+      if (request.stream) {
+        this.sendWithoutWaiting(new StreamChunkMessage(request, value, sequence++))
+      } else {
+        values.push(value)
+      }
+    }
+
+    if (signal.aborted) {
+      this.log.debug('Stream cancelled.', { name: request.name, chunks: sequence })
+      await iterator.return?.()
+    } else if (request.stream) {
+      this.sendWithoutWaiting(new StreamEndMessage(request, sequence))
+    } else {
+      this.sendWithoutWaiting(new ResponseMessage(request.name, request, values))
+    }
+  }
+
+  /**
+   * Tells the messengers handling a request that its requester no longer waits for the response, by
+   * routing a `CancelMessage` to them. The cancel of a broadcast request is broadcast to the same subtree.
+   * @param {RequestMessage<any>} request The request to cancel.
+   * @param {string} reason Why the request is cancelled.
+   * @param {Messenger} [destination] The messenger handling the request. Default is the request's destination,
+   *                                  or its whole subtree for a broadcast request.
+   */
+  private cancelRequest(request: RequestMessage<any>, reason: string, destination?: Messenger) {
+    this.log.debug('Cancelling request.', { requestId: request.id, reason })
+    this.sendWithoutWaiting(new CancelMessage(request, destination, reason))
+  }
+
+  /**
+   * Aborts the signal of the handler of a request that was cancelled by its requester.
+   * @param {CancelMessage} message The cancel message.
+   */
+  private handleCancel(message: CancelMessage) {
+    const controller = this.activeRequests.get(getRequestKey(message.source, message.requestId))
+
+    if (controller) {
+      this.log.debug('Request cancelled.', { requestId: message.requestId, reason: message.data })
+      controller.abort(new RequestAbortedError(message.requestId, message.data))
+    } else {
+      this.log.debug('No request to cancel.', { requestId: message.requestId })
+    }
+  }
+
+  /**
+   * Counts a message in the service's metrics.
+   * @param {MessageOutcome} outcome What happened to the message.
+   * @param {GeneralMessage<any>} message The message to count.
+   */
+  private countMessage(outcome: MessageOutcome, message: GeneralMessage<any>) {
+    this.metrics.count(outcome, message.name, messengerAsString(message.destination))
+  }
+
+  /**
+   * Records the round-trip latency of a request in the service's metrics.
+   * @param {GeneralMessage<any>} message The request.
+   * @param {number} startTime When the request was sent, from `performance.now()`.
+   * @param {boolean} failed Whether the request failed.
+   */
+  private observeRequest(message: GeneralMessage<any>, startTime: number, failed: boolean) {
+    this.metrics.observeRequest(
+      message.name,
+      messengerAsString(message.destination),
+      performance.now() - startTime,
+      failed
+    )
+  }
+
+  /**
+   * Starts a span for a message and makes it the message's current span, so that the spans recorded
+   * for the message at the next hop, and for its response, are children of it.
+   * @param {SpanKind} kind Whether the message is being sent, forwarded or handled.
+   * @param {GeneralMessage<any>} message The message the span is for.
+   * @returns {(error?: unknown) => void} Ends the span and exports it, failed with the error if one is given.
+   */
+  private startSpan(kind: SpanKind, message: GeneralMessage<any>): (error?: unknown) => void {
+    const spanExporter = this.spanExporter
+
+    if (!spanExporter) {
+      return () => {}
+    }
+
+    const parentSpanId = message.traceId ? message.spanId : undefined
+    message.traceId = message.traceId ?? generateTraceId()
+    message.spanId = generateSpanId()
+
+    const span: Span = {
+      traceId: message.traceId,
+      spanId: message.spanId,
+      parentSpanId,
+      kind,
+      name: message.name,
+      messenger: messengerAsString(this.messenger),
+      messageId: String(message.id),
+      messageType: message.type,
+      source: messengerAsString(message.source),
+      destination: messengerAsString(message.destination),
+      startTime: Date.now(),
+      endTime: 0,
+    }
+
+    let ended = false
+
+    return (error?: unknown) => {
+      if (ended) {
+        return
+      }
+      ended = true
+
+      span.endTime = Date.now()
+      if (error !== undefined) {
+        span.error = serializeError(error)
+      }
+
+      Promise.resolve()
+        .then(() => spanExporter.export([span]))
+        .catch((exportError) => this.log.error('Failed to export span.', { error: exportError }))
+    }
+  }
+
+  /**
+   * Records that a message passes through this service on its way to another messenger.
+   * Messages that already passed through this service, or that have been forwarded `maxHops` times,
+   * are dead-lettered.
+   * @param {GeneralMessage<any>} message The message to forward.
+   * @returns {boolean} `true` if the message can be forwarded, `false` if it was dead-lettered.
+   */
+  private recordHop(message: GeneralMessage<any>): boolean {
+    const here = messengerAsString(this.messenger)
+    const visited = message.visited ?? []
+    const hops = (message.hops ?? 0) + 1
+
+    if (visited.includes(here)) {
+      this.deadLetter(message, 'loop')
+      return false
+    }
+
+    if (hops > this.maxHops) {
+      this.deadLetter(message, 'max-hops')
+      return false
+    }
+
+    message.hops = hops
+    message.visited = [...visited, here]
+    return true
+  }
+
+  /**
+   * Drops a message that cannot be delivered, reporting it with a `dead-letter` event.
+   * @param {GeneralMessage<any>} message The message to drop.
+   * @param {DeadLetterReason} reason Why the message cannot be delivered.
+   */
+  private deadLetter(message: GeneralMessage<any>, reason: DeadLetterReason) {
+    this.log.warn('Dead-lettered message.', { reason, message })
+    this.countMessage('dropped', message)
+    this.events.emit('dead-letter', { message, reason })
+  }
+
+  /**
+   * Sends a message the service produces itself, e.g. a response, progress update or cancel, without
+   * waiting for it. If sending fails, e.g. because send middleware throws, the message is dead-lettered
+   * instead of rejecting unhandled.
+   * @param {GeneralMessage<any>} message The message to send.
+   */
+  private sendWithoutWaiting(message: GeneralMessage<any>) {
+    this.sendMessage(message).catch((error) => {
+      this.log.error('Sending message failed.', { name: message.name, error })
+      this.deadLetter(message, 'send-failed')
+    })
+  }
+
+  /**
+   * Sends a message over a transport, logging instead of throwing if the transport fails to send it,
+   * e.g. a worker pool without members.
+   * @param {Transport} transport The transport to send the message over.
+   * @param {GeneralMessage<any>} message The message to send.
+   * @returns {boolean} `true` if the message was sent, otherwise `false`.
+   */
+  private sendToTransport(transport: Transport, message: GeneralMessage<any>): boolean {
+    try {
+      transport.send(message)
+      return true
+    } catch (error) {
+      this.log.error('Transport failed to send message.', { name: message.name, error })
+      return false
+    }
+  }
+
+  /**
+   * Forwards a message to its correct destination (upstream or downstream).
+   * @param {GeneralMessage<any>} message The message to forward.
+   */
+  private forwardMessage(message: GeneralMessage<any>) {
+    if (
+      message.type === MessageType.RESPONSE ||
+      message.type === MessageType.ERROR ||
+      message.type === MessageType.STREAM_END ||
+      message.type === MessageType.CANCEL
+    ) {
+      // The relayed request is settled, so its requester no longer needs to be told about a crash
+      this.relayedRequests.delete((message as ResponseMessage<any>).requestId)
+    }
+
+    const debug = this.isLevelEnabled('debug')
+
+    if (messengerIsUpstream(this.messenger, message.destination, this.log)) {
+      if (debug) {
+        this.log.debug('Forwarding message upstream.', { message })
+      }
+      this.forwardUpstream(message)
+    } else if (messengersAreEqual(this.messenger, message.destination)) {
+      if (debug) {
+        this.log.debug('Forwarding message to message received callback.', { message })
+      }
+      this.dispatchMessage(message)
+    } else {
+      if (debug) {
+        this.log.debug('Forwarding message downstream.', { message })
+      }
+      this.forwardDownstream(message)
+    }
+  }
+
+  /**
+   * Forwards a message upstream (to the parent or higher level).
+   * @param {GeneralMessage<any>} message The message to forward upstream.
+   */
+  private forwardUpstream(message: GeneralMessage<any>) {
+    if (this.upstream && this.sendToTransport(this.upstream, message)) {
+      this.countMessage('forwarded', message)
+    } else {
+      this.deadLetter(message, 'no-route')
+    }
+  }
+
+  /**
+   * Forwards a message downstream (to the worker or lower level).
+   * @param {GeneralMessage<any>} message The message to forward downstream.
+   */
+  private forwardDownstream(message: GeneralMessage<any>) {
+    const here = messengerAsArray(this.messenger) // [w] = 1 vs [w,s,i]
+    const next = messengerAsArray(message.destination).slice(0, here.length + 1)
+
+    let forwarded = false
+
+    this.workers.forEach((worker, key) => {
+      let sent = false
+
+      if (messengersAreEqual(message.destination, key)) {
+        this.log.debug('Forwarding downstream to worker.', { worker: key })
+        sent = this.sendToTransport(worker, message)
+      } else if (messengersAreEqual(next, key)) {
+        this.log.debug('Forwarding downstream to next hop.', { worker: key })
+        sent = this.sendToTransport(worker, message)
+      }
+
+      if (sent && message.type === MessageType.REQUEST && !message.broadcast) {
+        this.trackRelayedRequest(key, message as RequestMessage<any>)
+      }
+      forwarded = sent || forwarded
+    })
+
+    if (forwarded) {
+      this.countMessage('forwarded', message)
+    } else {
+      this.deadLetter(message, 'no-route')
+    }
+  }
+
+  /**
+   * Remembers a request forwarded to a worker on behalf of another messenger until it is settled.
+   * @param {string} workerKey The key of the worker the request was forwarded to.
+   * @param {RequestMessage<any>} request The request.
+   */
+  private trackRelayedRequest(workerKey: string, request: RequestMessage<any>) {
+    this.relayedRequests.set(request.id, { route: workerKey, request })
+
+    if (this.relayedRequests.size > RELAYED_REQUEST_HISTORY_SIZE) {
+      this.relayedRequests.delete(this.relayedRequests.keys().next().value!)
+    }
+  }
+
+  /**
+   * Handles the readiness announcement of a worker: delivers the messages buffered for it and
+   * resolves any pending `whenReady()` calls.
+   * @param {GeneralMessage<any>} message The ready message received from the worker.
+   */
+  private handleReady(message: GeneralMessage<any>) {
+    const workerKey = messengerAsString(message.source)
+    const transport = this.workers.get(workerKey)
+
+    if (!transport) {
+      this.log.debug('Ignoring ready message from unknown worker.', { worker: workerKey })
+      return
+    }
+
+    this.log.info('Worker is ready.', { worker: workerKey })
+    this.readyWorkers.add(workerKey)
+
+    if (transport instanceof BufferedTransport) {
+      transport.markReady()
+    }
+
+    this.readyWaiters.get(workerKey)?.forEach(({ resolve }) => resolve())
+    this.readyWaiters.delete(workerKey)
+
+    this.events.emit('worker-ready', { worker: workerKey })
+  }
+
+  /**
+   * Creates a shared memory channel to a direct child and prepares the offer that `addWorker()` sends it.
+   * Messages keep going through the transport until the child accepts the offer.
+   * Falls back to the transport alone if `SharedArrayBuffer` is not available.
+   * @param {string} workerKey The messenger of the child.
+   * @param {Transport} transport The transport to the child.
+   * @param {SharedChannelOptions} options The size of the channel's buffers and largest message.
+   * @returns {Transport} The transport to use for the child.
+   */
+  private openSharedChannel(
+    workerKey: string,
+    transport: Transport,
+    options: SharedChannelOptions
+  ): Transport {
+    if (!SharedChannelTransport.isSupported()) {
+      this.log.warn('SharedArrayBuffer is not available, using postMessage.', {
+        worker: workerKey,
+      })
+      return transport
+    }
+
+    const channel = SharedChannelTransport.createChannel(options)
+
+    const sharedChannelMessage = new SharedChannelMessage(workerKey, {
+      send: channel.receive,
+      receive: channel.send,
+      maxMessageBytes: channel.maxMessageBytes,
+    })
+    sharedChannelMessage.source = this.messenger
+    sharedChannelMessage.id = generateUUID()
+
+    const sharedChannelTransport = new SharedChannelTransport(transport, channel, this.log)
+    this.sharedChannelOffers.set(workerKey, {
+      message: sharedChannelMessage,
+      transport: sharedChannelTransport,
+    })
+
+    this.log.info('Opened shared channel.', { worker: workerKey })
+    return sharedChannelTransport
+  }
+
+  /**
+   * Starts sending through the shared memory channel offered to a direct child once it accepted it.
+   * @param {GeneralMessage<any>} message The shared channel message the child sent back.
+   */
+  private handleSharedChannelAccepted(message: GeneralMessage<any>) {
+    const workerKey = messengerAsString(message.source)
+    const sharedChannelOffer = this.sharedChannelOffers.get(workerKey)
+
+    if (!sharedChannelOffer || sharedChannelOffer.message.id !== message.id) {
+      this.log.debug('Ignoring shared channel not offered to worker.', { worker: workerKey })
+      return
+    }
+
+    this.sharedChannelOffers.delete(workerKey)
+    sharedChannelOffer.transport.markOpen()
+
+    this.log.info('Worker accepted shared channel.', { worker: workerKey })
+  }
+
+  /**
+   * Accepts a shared memory channel offered by the parent, wrapping the upstream transport in it.
+   * @param {GeneralMessage<any>} message The shared channel message received from the parent.
+   */
+  private acceptSharedChannel(message: GeneralMessage<any>) {
+    if (!this.upstream || !messengersAreEqual(message.destination, this.messenger)) {
+      this.log.debug('Ignoring shared channel not offered by upstream.')
+      return
+    }
+
+    const upstream = new SharedChannelTransport(this.upstream, message.data, this.log)
+    upstream.markOpen()
+
+    // Let the parent know it can send through the ring buffer, which this service now reads from
+    const accepted = new SharedChannelMessage(message.source, message.data)
+    accepted.source = this.messenger
+    accepted.id = message.id
+    this.sendToTransport(this.upstream, accepted)
+
+    this.upstreamListener?.()
+    this.upstream = upstream
+    this.upstreamListener = upstream.onMessage((message) => {
+      this.handleMessage(message, upstream)
+    })
+
+    this.log.info('Accepted shared channel from upstream.')
+  }
+
+  /**
+   * Handles a lifecycle event of a worker. Errors and exits are treated as crashes: requests routed
+   * through the worker are rejected, requests relayed to it for other messengers are answered with an
+   * `ErrorResponseMessage`, and the worker is removed and, if supervised, restarted. The crash of
+   * a pool member only rejects the requests it was handling, and the member is replaced instead
+   * unless the pool was already removing it.
+   * @param {string} workerKey The key of the worker.
+   * @param {Transport} transport The transport of the worker that reported the event.
+   * @param {TransportEvent} event The lifecycle event.
+   */
+  private handleWorkerEvent(workerKey: string, transport: Transport, event: TransportEvent) {
+    if (event.type === 'messageerror') {
+      this.log.error('Unable to receive message from worker.', {
+        worker: workerKey,
+        error: event.error,
+      })
+      this.events.emit('worker-message-error', {
+        worker: workerKey,
+        error: event.error ?? new Error('Unable to deserialize message.'),
+      })
+      return
+    }
+
+    // An error is usually followed by an exit, so only handle the first for each worker
+    if (this.workers.get(workerKey) !== transport) {
+      return
+    }
+
+    const error = new WorkerCrashedError(workerKey, event.error, event.exitCode)
+
+    if (event.requestIds) {
+      this.log.error('Worker pool member crashed.', { worker: workerKey, error })
+
+      event.requestIds.forEach((requestId) => this.responseHandlers.get(requestId)?.reject(error))
+      this.failRelayedRequests(workerKey, error, event.requestIds)
+
+      const willRestart = event.replace !== false && this.scheduleRestart(workerKey)
+      this.events.emit('worker-crashed', { worker: workerKey, error, willRestart })
+      return
+    }
+
+    this.log.error('Worker crashed.', { worker: workerKey, error })
+
+    this.failRelayedRequests(workerKey, error)
+    this.detachWorker(workerKey, error)
+    transport.close()
+
+    this.responseHandlers.forEach((responseHandler) => {
+      if (responseHandler.route === workerKey) {
+        responseHandler.reject(error)
+      }
+    })
+
+    const willRestart = this.scheduleRestart(workerKey)
+    this.events.emit('worker-crashed', { worker: workerKey, error, willRestart })
+  }
+
+  /**
+   * Answers the requests relayed to a crashed worker on behalf of other messengers with an
+   * `ErrorResponseMessage`, so that their requesters do not wait for their timeout.
+   * @param {string} workerKey The key of the crashed worker.
+   * @param {WorkerCrashedError} error The error to answer the requests with.
+   * @param {any[]} [requestIds] The requests the worker was handling, if it is a member of a pool.
+   */
+  private failRelayedRequests(workerKey: string, error: WorkerCrashedError, requestIds?: any[]) {
+    this.relayedRequests.forEach(({ route, request }, requestId) => {
+      if (route === workerKey && (!requestIds || requestIds.includes(requestId))) {
+        this.relayedRequests.delete(requestId)
+        this.sendWithoutWaiting(new ErrorResponseMessage(request, error))
+      }
+    })
+  }
+
+  /**
+   * Schedules a supervised worker to be restarted with its factory, following its restart policy.
+   * @param {string} workerKey The key of the crashed worker.
+   * @returns {boolean} `true` if the worker will be restarted, otherwise `false`.
+   */
+  private scheduleRestart(workerKey: string): boolean {
+    const supervisor = this.workerSupervisors.get(workerKey)
+    if (!supervisor) {
+      return false
+    }
+
+    const {
+      maxRestarts = 3,
+      backoffMs = 100,
+      maxBackoffMs = 10000,
+    } = supervisor.restartPolicy ?? {}
+
+    if (supervisor.restarts >= maxRestarts) {
+      this.log.error('Worker will not be restarted again.', { worker: workerKey })
+      this.workerSupervisors.delete(workerKey)
+      return false
+    }
+
+    const delay = Math.min(backoffMs * 2 ** supervisor.restarts, maxBackoffMs)
+
+    supervisor.restartTimeout = setTimeout(() => {
+      const restarts = supervisor.restarts + 1
+
+      try {
+        supervisor.restart()
+      } catch (err) {
+        this.log.error('Unable to restart worker.', { worker: workerKey, error: err })
+        this.workerSupervisors.delete(workerKey)
+        return
+      }
+
+      this.workerSupervisors.get(workerKey)!.restarts = restarts
+      this.log.info('Restarted worker.', { worker: workerKey, restarts })
+      this.events.emit('worker-restarted', { worker: workerKey, restarts })
+    }, delay)
+
+    return true
+  }
+
+  /**
+   * Stops restarting a worker, cancelling any pending restart.
+   * @param {string} workerKey The key of the worker.
+   */
+  private stopSupervising(workerKey: string) {
+    const supervisor = this.workerSupervisors.get(workerKey)
+
+    if (supervisor) {
+      clearTimeout(supervisor.restartTimeout)
+      this.workerSupervisors.delete(workerKey)
+    }
+  }
+
+  /**
+   * Removes a worker's listeners and forgets the worker, leaving its transport open. Pending
+   * `whenReady()` calls for the worker are rejected.
+   * @param {string} workerKey The key of the worker.
+   * @param {WorkerCrashedError} [error] Why the worker is detached. Default is that it was removed.
+   * @returns {boolean} `true` if the worker was found, otherwise `false`.
+   */
+  private detachWorker(workerKey: string, error?: WorkerCrashedError): boolean {
+    const workerListener = this.workerListeners.get(workerKey)
+
+    if (!workerListener) {
+      return false
+    }
+
+    workerListener()
+    this.workerListeners.delete(workerKey)
+    this.workers.delete(workerKey)
+    this.readyWorkers.delete(workerKey)
+    this.relayedRequests.forEach(({ route }, requestId) => {
+      if (route === workerKey) {
+        this.relayedRequests.delete(requestId)
+      }
+    })
+    this.sharedChannelOffers.delete(workerKey)
+
+    const readyWaiters = this.readyWaiters.get(workerKey)
+    if (readyWaiters) {
+      const reason =
+        error ?? new WorkerCrashedError(workerKey, new Error('Removed before it was ready.'))
+      readyWaiters.forEach(({ reject }) => reject(reason))
+      this.readyWaiters.delete(workerKey)
+    }
+    return true
   }
 
   private getWorkerKey(name: string) {
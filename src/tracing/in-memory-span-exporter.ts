@@ -0,0 +1,31 @@
+import { Span } from '../types/span'
+import { SpanExporter } from '../types/span-exporter'
+
+/**
+ * A SpanExporter that keeps spans in memory, e.g. to assert on traces in tests.
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: Span[] = []
+
+  public export(spans: Span[]): void {
+    this.spans.push(...spans)
+  }
+
+  /**
+   * Gets the exported spans in the order they finished.
+   * @param {string} [traceId] Only get the spans of this trace.
+   * @returns {Span[]} The spans.
+   */
+  public getSpans(traceId?: string): Span[] {
+    return traceId === undefined
+      ? [...this.spans]
+      : this.spans.filter((span) => span.traceId === traceId)
+  }
+
+  /**
+   * Removes all exported spans.
+   */
+  public reset(): void {
+    this.spans = []
+  }
+}
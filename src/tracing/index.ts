@@ -0,0 +1,8 @@
+export {
+  generateTraceId,
+  generateSpanId,
+  formatTraceparent,
+  parseTraceparent,
+} from './trace-context'
+export { InMemorySpanExporter } from './in-memory-span-exporter'
+export { JsonLinesSpanExporter } from './json-lines-span-exporter'
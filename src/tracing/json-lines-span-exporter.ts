@@ -0,0 +1,45 @@
+import { Span } from '../types/span'
+import { SpanExporter } from '../types/span-exporter'
+
+/**
+ * A SpanExporter that appends each span to a file as a line of JSON, so that the spans of several
+ * processes can be merged and sorted into end-to-end timelines. Node.js only.
+ */
+export class JsonLinesSpanExporter implements SpanExporter {
+  private path: string
+  private pending: Promise<void> = Promise.resolve()
+
+  /**
+   * Creates an instance of the JsonLinesSpanExporter.
+   * @param {string} path The file to append spans to. It is created if it does not exist.
+   */
+  constructor(path: string) {
+    this.path = path
+  }
+
+  /**
+   * Appends spans to the file. Writes are queued so that lines are never interleaved.
+   * @param {Span[]} spans The spans to append.
+   * @returns {Promise<void>} A promise that resolves once the spans are written.
+   */
+  public export(spans: Span[]): Promise<void> {
+    const lines = spans.map((span) => `${JSON.stringify(span)}\n`).join('')
+
+    const write = this.pending.then(async () => {
+      const { appendFile } = await import('fs/promises')
+      await appendFile(this.path, lines)
+    })
+
+    // Keep the queue going after a failed write; the failure is reported to the caller
+    this.pending = write.catch(() => {})
+    return write
+  }
+
+  /**
+   * Waits for all queued writes to finish.
+   * @returns {Promise<void>} A promise that resolves once the file is up to date.
+   */
+  public shutdown(): Promise<void> {
+    return this.pending
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * The version of the W3C trace-context `traceparent` format that is written.
+ */
+const TRACEPARENT_VERSION = '00'
+
+/**
+ * The `traceparent` flags written for spans; every span is recorded (sampled).
+ */
+const SAMPLED_FLAG = '01'
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/
+
+/**
+ * Generates a random, non-zero id of the given number of bytes as lowercase hex.
+ * @param {number} bytes The number of random bytes.
+ * @returns {string} The id.
+ */
+function generateId(bytes: number): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes))
+  const id = Array.from(values, (value) => value.toString(16).padStart(2, '0')).join('')
+
+  // All-zero ids are invalid in W3C trace-context
+  return /^0+$/.test(id) ? generateId(bytes) : id
+}
+
+/**
+ * Generates a new trace id.
+ * @returns {string} 32 lowercase hex characters.
+ */
+export function generateTraceId(): string {
+  return generateId(16)
+}
+
+/**
+ * Generates a new span id.
+ * @returns {string} 16 lowercase hex characters.
+ */
+export function generateSpanId(): string {
+  return generateId(8)
+}
+
+/**
+ * Formats a trace and span id as a W3C trace-context `traceparent` header, e.g. to continue a
+ * message's trace in an HTTP request.
+ * @param {string} traceId The trace id.
+ * @param {string} spanId The id of the parent span.
+ * @returns {string} The `traceparent` header value.
+ */
+export function formatTraceparent(traceId: string, spanId: string): string {
+  return `${TRACEPARENT_VERSION}-${traceId}-${spanId}-${SAMPLED_FLAG}`
+}
+
+/**
+ * Parses a W3C trace-context `traceparent` header, e.g. to continue the trace of an HTTP request in
+ * a message by setting its `traceId` and `spanId`.
+ * @param {string} traceparent The `traceparent` header value.
+ * @returns {{ traceId: string; spanId: string } | null} The trace and parent span id, or `null` if the header is invalid.
+ */
+export function parseTraceparent(traceparent: string): { traceId: string; spanId: string } | null {
+  const match = TRACEPARENT_PATTERN.exec(traceparent.trim().toLowerCase())
+
+  if (!match || match[1] === 'ff' || /^0+$/.test(match[2]) || /^0+$/.test(match[3])) {
+    return null
+  }
+
+  return { traceId: match[2], spanId: match[3] }
+}
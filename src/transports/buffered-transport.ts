@@ -0,0 +1,72 @@
+import { GeneralMessage } from '../models/general-message'
+import { Transport } from '../types/transport'
+import { TransportEvent } from '../types/transport-event'
+
+/**
+ * A transport that buffers outgoing messages until the other end is ready to receive them.
+ * Incoming messages and lifecycle events pass straight through to the wrapped transport.
+ */
+export class BufferedTransport implements Transport {
+  private transport: Transport
+  private queue: GeneralMessage<any>[] = []
+  private ready: boolean = false
+
+  /**
+   * Creates an instance of the BufferedTransport.
+   * @param {Transport} transport The transport to deliver messages through once ready.
+   */
+  constructor(transport: Transport) {
+    this.transport = transport
+  }
+
+  /**
+   * Whether the other end is ready and messages are delivered immediately.
+   * @type {boolean}
+   */
+  public get isReady(): boolean {
+    return this.ready
+  }
+
+  /**
+   * The number of messages waiting for the other end to become ready.
+   * @type {number}
+   */
+  public get queueLength(): number {
+    return this.queue.length
+  }
+
+  /**
+   * Marks the other end as ready and delivers all buffered messages in order.
+   */
+  public markReady(): void {
+    this.ready = true
+
+    const queue = this.queue
+    this.queue = []
+    queue.forEach((message) => this.transport.send(message))
+  }
+
+  public send(message: GeneralMessage<any>): void {
+    if (this.ready) {
+      this.transport.send(message)
+    } else {
+      this.queue.push(message)
+    }
+  }
+
+  public onMessage(listener: (message: GeneralMessage<any>) => void): () => void {
+    return this.transport.onMessage(listener)
+  }
+
+  public onEvent(listener: (event: TransportEvent) => void): () => void {
+    return this.transport.onEvent?.(listener) ?? (() => {})
+  }
+
+  /**
+   * Discards all buffered messages and closes the wrapped transport.
+   */
+  public close(): void {
+    this.queue = []
+    this.transport.close()
+  }
+}
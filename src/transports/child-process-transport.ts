@@ -0,0 +1,101 @@
+import { GeneralMessage } from '../models/general-message'
+import { Transport } from '../types/transport'
+import { TransportEvent } from '../types/transport-event'
+
+/**
+ * The name of the environment variable that tells a forked child process its messenger path,
+ * the way `workerData.name` does for worker threads.
+ */
+export const MESSENGER_ENV_VARIABLE = 'MESSAGEWORKS_MESSENGER'
+
+/**
+ * The subset of the `ChildProcess` and child `process` IPC APIs used by the transport.
+ */
+export type ChildProcessEndpoint = {
+  send?: (message: any) => boolean
+  on(event: 'message' | 'error' | 'exit', listener: (value: any) => void): any
+  off(event: 'message' | 'error' | 'exit', listener: (value: any) => void): any
+  disconnect?: () => void
+  connected?: boolean
+}
+
+/**
+ * A transport over the IPC channel of a forked `ChildProcess` (from the parent) or `process` (from the child).
+ * Messages are serialized by the IPC channel, so message data must be serializable with the
+ * `serialization` mode the child was forked with (JSON by default).
+ */
+export class ChildProcessTransport implements Transport {
+  private endpoint: ChildProcessEndpoint
+  private listeners: Set<(message: any) => void> = new Set()
+  private eventListeners: Set<() => void> = new Set()
+
+  /**
+   * Creates an instance of the ChildProcessTransport.
+   * @param {ChildProcessEndpoint} endpoint The `ChildProcess` or `process` to communicate through.
+   */
+  constructor(endpoint: ChildProcessEndpoint) {
+    if (typeof endpoint.send !== 'function') {
+      throw new Error('Unable to create a child process transport without an IPC channel.')
+    }
+
+    this.endpoint = endpoint
+  }
+
+  /**
+   * Sends a message over the IPC channel.
+   * @param {GeneralMessage<any>} message The message to send.
+   * @throws {Error} If the IPC channel is disconnected. Node.js would otherwise report this as an
+   * `error` event on the endpoint, which crashes the process when nothing listens for it.
+   */
+  public send(message: GeneralMessage<any>): void {
+    if (this.endpoint.connected === false) {
+      throw new Error('Unable to send message, the IPC channel is disconnected.')
+    }
+
+    // Transferables cannot be sent over IPC, so the message is always copied
+    const { transfer, ...copy } = message
+    this.endpoint.send!(copy)
+  }
+
+  public onMessage(listener: (message: GeneralMessage<any>) => void): () => void {
+    const messageListener = (message: any) => listener(message as GeneralMessage<any>)
+    this.endpoint.on('message', messageListener)
+    this.listeners.add(messageListener)
+
+    return () => {
+      this.endpoint.off('message', messageListener)
+      this.listeners.delete(messageListener)
+    }
+  }
+
+  public onEvent(listener: (event: TransportEvent) => void): () => void {
+    const errorListener = (error: Error) => listener({ type: 'error', error })
+    const exitListener = (exitCode: number | null) =>
+      listener({ type: 'exit', exitCode: exitCode ?? undefined })
+
+    this.endpoint.on('error', errorListener)
+    this.endpoint.on('exit', exitListener)
+
+    const removeListeners = () => {
+      this.endpoint.off('error', errorListener)
+      this.endpoint.off('exit', exitListener)
+      this.eventListeners.delete(removeListeners)
+    }
+    this.eventListeners.add(removeListeners)
+
+    return removeListeners
+  }
+
+  /**
+   * Removes all listeners and disconnects the IPC channel.
+   */
+  public close(): void {
+    this.listeners.forEach((listener) => this.endpoint.off('message', listener))
+    this.listeners.clear()
+    this.eventListeners.forEach((removeListeners) => removeListeners())
+
+    if (this.endpoint.connected) {
+      this.endpoint.disconnect?.()
+    }
+  }
+}
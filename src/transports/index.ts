@@ -0,0 +1,17 @@
+export { WorkerThreadsTransport, WorkerThreadsEndpoint } from './worker-threads-transport'
+export { WebWorkerTransport, WebWorkerEndpoint } from './web-worker-transport'
+export { MessagePortTransport } from './message-port-transport'
+export { BufferedTransport } from './buffered-transport'
+export {
+  SharedChannelTransport,
+  SharedChannelOptions,
+  SharedChannel,
+} from './shared-channel-transport'
+export {
+  ChildProcessTransport,
+  ChildProcessEndpoint,
+  MESSENGER_ENV_VARIABLE,
+} from './child-process-transport'
+export { SocketTransport, SocketReconnectOptions, SocketTransportOptions } from './socket-transport'
+export { WorkerPool, WorkerPoolFactory, WorkerPoolOptions, WorkerPoolStrategy } from './worker-pool'
+export { isTransport, toTransport } from './transport-utils'
@@ -0,0 +1,44 @@
+import { GeneralMessage } from '../models/general-message'
+import { Transport } from '../types/transport'
+
+/**
+ * A transport over a raw `MessagePort`, such as one end of a `MessageChannel`.
+ * The port is started when the first listener is registered and closed with the transport.
+ */
+export class MessagePortTransport implements Transport {
+  private port: MessagePort
+  private listeners: Set<(event: MessageEvent) => void> = new Set()
+
+  /**
+   * Creates an instance of the MessagePortTransport.
+   * @param {MessagePort} port The port to communicate through.
+   */
+  constructor(port: MessagePort) {
+    this.port = port
+  }
+
+  public send(message: GeneralMessage<any>): void {
+    this.port.postMessage(message, message.transfer ?? [])
+  }
+
+  public onMessage(listener: (message: GeneralMessage<any>) => void): () => void {
+    const eventListener = (event: MessageEvent) => listener(event.data as GeneralMessage<any>)
+    this.port.addEventListener('message', eventListener)
+    this.listeners.add(eventListener)
+    this.port.start()
+
+    return () => {
+      this.port.removeEventListener('message', eventListener)
+      this.listeners.delete(eventListener)
+    }
+  }
+
+  /**
+   * Removes all listeners and closes the port.
+   */
+  public close(): void {
+    this.listeners.forEach((listener) => this.port.removeEventListener('message', listener))
+    this.listeners.clear()
+    this.port.close()
+  }
+}
@@ -0,0 +1,175 @@
+import { GeneralMessage } from '../models/general-message'
+import { messengerAsString } from '../utils/messenger-utils'
+
+/**
+ * The flags in the first byte of an encoded message.
+ */
+const BROADCAST_FLAG = 1
+const DATA_FLAG = 2
+const EXTRAS_FLAG = 4
+
+/**
+ * The properties of a message that are encoded in its envelope rather than as extras.
+ */
+const ENVELOPE_PROPERTIES = new Set([
+  'id',
+  'name',
+  'type',
+  'broadcast',
+  'source',
+  'destination',
+  'data',
+  'transfer',
+])
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+/**
+ * The buffer messages are encoded into, reused so that encoding does not allocate a record per message.
+ */
+let scratch = new Uint8Array(1024)
+let scratchView = new DataView(scratch.buffer)
+
+/**
+ * Determine if JSON round-trips a value the way structured cloning does: primitives, arrays and plain
+ * objects. Anything else (dates, binary data, maps, class instances, ...) is sent with `postMessage()`.
+ * @param value The value to check
+ * @returns `true` if the value can be encoded as JSON
+ */
+function isJsonSafe(value: any): boolean {
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+      return true
+    case 'number':
+      return Number.isFinite(value)
+    case 'object':
+      if (value === null) {
+        return true
+      }
+
+      if (Array.isArray(value)) {
+        return value.every(isJsonSafe)
+      }
+
+      const prototype = Object.getPrototypeOf(value)
+      if (prototype !== Object.prototype && prototype !== null) {
+        return false
+      }
+
+      for (const key in value) {
+        if (value[key] !== undefined && !isJsonSafe(value[key])) {
+          return false
+        }
+      }
+      return true
+    default:
+      return false
+  }
+}
+
+/**
+ * Encode a message into a compact binary record: a flags byte, the number of strings, the length of
+ * each string, then the strings themselves as a single block of UTF-8. The strings are the type, id,
+ * name, source and destination, followed by the data and any other properties (e.g. `requestId`)
+ * as JSON.
+ * @param message The message to encode
+ * @returns The encoded record, or `null` if the message cannot be encoded and must be sent with `postMessage()`.
+ * The record is only valid until the next call, so copy it before encoding another message.
+ */
+export function encodeMessage(message: GeneralMessage<any>): Uint8Array | null {
+  const { id, name, type, broadcast, source, destination, data } = message
+
+  if (typeof id !== 'string' || typeof name !== 'string') {
+    return null
+  }
+
+  let extras: Record<string, any> | undefined
+  for (const key in message) {
+    const value = (message as any)[key]
+    if (!ENVELOPE_PROPERTIES.has(key) && value !== undefined) {
+      extras = extras ?? {}
+      extras[key] = value
+    }
+  }
+
+  if ((data !== undefined && !isJsonSafe(data)) || (extras && !isJsonSafe(extras))) {
+    return null
+  }
+
+  const strings = [
+    type,
+    id,
+    name,
+    typeof source === 'string' ? source : messengerAsString(source),
+    typeof destination === 'string' ? destination : messengerAsString(destination),
+  ]
+
+  let flags = broadcast ? BROADCAST_FLAG : 0
+
+  if (data !== undefined) {
+    flags |= DATA_FLAG
+    strings.push(JSON.stringify(data))
+  }
+
+  if (extras) {
+    flags |= EXTRAS_FLAG
+    strings.push(JSON.stringify(extras))
+  }
+
+  const text = strings.join('')
+  const headerBytes = 2 + strings.length * 4
+
+  // UTF-8 needs at most 3 bytes per UTF-16 code unit
+  const maxBytes = headerBytes + text.length * 3
+  if (scratch.length < maxBytes) {
+    scratch = new Uint8Array(Math.max(scratch.length * 2, maxBytes))
+    scratchView = new DataView(scratch.buffer)
+  }
+
+  scratchView.setUint8(0, flags)
+  scratchView.setUint8(1, strings.length)
+  for (let index = 0; index < strings.length; index++) {
+    scratchView.setUint32(2 + index * 4, strings[index].length)
+  }
+
+  const { written } = textEncoder.encodeInto(text, scratch.subarray(headerBytes))
+  return scratch.subarray(0, headerBytes + written)
+}
+
+/**
+ * Decode a record created with `encodeMessage()` into a plain message object, as `postMessage()`
+ * would deliver it.
+ * @param record The encoded record
+ * @returns The decoded message
+ */
+export function decodeMessage(record: Uint8Array): GeneralMessage<any> {
+  const view = new DataView(record.buffer, record.byteOffset, record.byteLength)
+  const flags = view.getUint8(0)
+  const count = view.getUint8(1)
+  const headerBytes = 2 + count * 4
+
+  const text = textDecoder.decode(record.subarray(headerBytes))
+  const strings: string[] = []
+
+  let offset = 0
+  for (let index = 0; index < count; index++) {
+    const length = view.getUint32(2 + index * 4)
+    strings.push(text.slice(offset, offset + length))
+    offset += length
+  }
+
+  const [type, id, name, source, destination, ...json] = strings
+
+  return {
+    id,
+    name,
+    type,
+    broadcast: (flags & BROADCAST_FLAG) !== 0,
+    source,
+    destination,
+    data: flags & DATA_FLAG ? JSON.parse(json.shift()!) : undefined,
+    ...(flags & EXTRAS_FLAG ? JSON.parse(json.shift()!) : {}),
+  } as GeneralMessage<any>
+}
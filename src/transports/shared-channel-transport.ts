@@ -0,0 +1,251 @@
+import { GeneralMessage } from '../models/general-message'
+import { Transport } from '../types/transport'
+import { TransportEvent } from '../types/transport-event'
+import { Logger } from '../types/logger'
+import { SilentLogger } from '../logging/silent-logger'
+import { SharedRingBuffer } from './shared-ring-buffer'
+import { decodeMessage, encodeMessage } from './shared-channel-codec'
+
+/**
+ * The property that carries a message's position on the channel, on both the ring buffer and the fallback.
+ */
+const SEQUENCE_PROPERTY = 'channelSequence'
+
+/**
+ * Options for the shared memory channel between a MessagingService and a direct child.
+ */
+export interface SharedChannelOptions {
+  /**
+   * The number of bytes in each direction's ring buffer. Default is 1 MiB.
+   * @type {number | undefined}
+   */
+  capacityBytes?: number
+
+  /**
+   * The size in bytes of the largest encoded message sent through the ring buffer. Larger messages
+   * are sent with `postMessage()` instead. Default is 64 KiB.
+   * @type {number | undefined}
+   */
+  maxMessageBytes?: number
+}
+
+/**
+ * The shared buffers of one end of a shared memory channel. The other end sends into this end's
+ * `receive` buffer and receives from its `send` buffer.
+ */
+export type SharedChannel = {
+  send: SharedArrayBuffer
+  receive: SharedArrayBuffer
+  maxMessageBytes?: number
+}
+
+/**
+ * A high-throughput transport to a direct child (or parent) backed by a pair of `SharedArrayBuffer`
+ * ring buffers. Messages are written in a compact binary encoding without structured cloning, and
+ * the receiving end is woken with `Atomics.notify()`.
+ *
+ * Messages that cannot go through the ring buffer (oversized messages, messages with transferables or
+ * data JSON cannot represent, or messages sent while the buffer is full) fall back to the wrapped
+ * `postMessage()` transport. Once the channel is open, every message carries a sequence number and the
+ * receiving end holds back messages that overtook an earlier one on the other path, so they are
+ * delivered in the order they were sent.
+ *
+ * Until `markOpen()` is called, messages are sent with `postMessage()` too, so that nothing is written
+ * to the ring buffer before the other end has accepted the channel and reads from it.
+ */
+export class SharedChannelTransport implements Transport {
+  private fallback: Transport
+  private sendBuffer: SharedRingBuffer
+  private receiveBuffer: SharedRingBuffer
+  private maxMessageBytes: number
+  private listeners: Set<(message: GeneralMessage<any>) => void> = new Set()
+  private fallbackListener?: () => void
+  private nextSendSequence: number = 0
+  private nextReceiveSequence: number = 0
+  private outOfOrder: Map<number, GeneralMessage<any>> = new Map()
+  private receiving: boolean = false
+  private open: boolean = false
+  private closed: boolean = false
+  private logger: Logger
+
+  /**
+   * Determines if shared memory channels are available in this environment. Browsers only provide
+   * `SharedArrayBuffer` to cross-origin isolated pages.
+   * @returns {boolean} `true` if `SharedArrayBuffer` and `Atomics` are available.
+   */
+  public static isSupported(): boolean {
+    return typeof SharedArrayBuffer !== 'undefined' && typeof Atomics !== 'undefined'
+  }
+
+  /**
+   * Creates the shared buffers for a new channel.
+   * @param {SharedChannelOptions} [options] The size of the buffers and of the largest message sent through them.
+   * @returns {SharedChannel} The buffers for this end; swap `send` and `receive` for the other end.
+   */
+  public static createChannel(options: SharedChannelOptions = {}): SharedChannel {
+    const capacityBytes = options.capacityBytes ?? 1024 * 1024
+
+    return {
+      send: SharedRingBuffer.allocate(capacityBytes),
+      receive: SharedRingBuffer.allocate(capacityBytes),
+      maxMessageBytes: options.maxMessageBytes,
+    }
+  }
+
+  /**
+   * Creates an instance of the SharedChannelTransport.
+   * @param {Transport} fallback The transport used for the handshake and for messages that do not fit the ring buffer.
+   * @param {SharedChannel} channel The shared buffers of this end of the channel.
+   * @param {Logger} [logger] Where to log listeners that throw. Default is silent.
+   */
+  constructor(fallback: Transport, channel: SharedChannel, logger: Logger = new SilentLogger()) {
+    this.fallback = fallback
+    this.logger = logger
+    this.sendBuffer = new SharedRingBuffer(channel.send)
+    this.receiveBuffer = new SharedRingBuffer(channel.receive)
+    this.maxMessageBytes = Math.min(
+      channel.maxMessageBytes ?? 64 * 1024,
+      this.sendBuffer.maxRecordBytes
+    )
+  }
+
+  /**
+   * Whether the other end reads from the ring buffer and messages are sent through it.
+   * @type {boolean}
+   */
+  public get isOpen(): boolean {
+    return this.open
+  }
+
+  /**
+   * The number of messages queued by the fallback transport.
+   * @type {number | undefined}
+   */
+  public get queueLength(): number | undefined {
+    return this.fallback.queueLength
+  }
+
+  /**
+   * Marks the other end as reading from the ring buffer, so that messages are sent through it.
+   */
+  public markOpen(): void {
+    this.open = true
+  }
+
+  public send(message: GeneralMessage<any>): void {
+    if (!this.open || this.closed) {
+      this.fallback.send(message)
+      return
+    }
+
+    const sequenced = { ...message, [SEQUENCE_PROPERTY]: this.nextSendSequence++ }
+
+    if (!message.transfer?.length) {
+      const record = encodeMessage(sequenced)
+
+      if (record && record.length <= this.maxMessageBytes && this.sendBuffer.write(record)) {
+        return
+      }
+    }
+
+    this.fallback.send(sequenced)
+  }
+
+  public onMessage(listener: (message: GeneralMessage<any>) => void): () => void {
+    this.listeners.add(listener)
+
+    if (!this.fallbackListener) {
+      this.fallbackListener = this.fallback.onMessage((message) => this.deliver(message))
+    }
+
+    if (!this.receiving) {
+      this.receive()
+    }
+
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  public onEvent(listener: (event: TransportEvent) => void): () => void {
+    return this.fallback.onEvent?.(listener) ?? (() => {})
+  }
+
+  /**
+   * Stops receiving from the ring buffer, removes all listeners and closes the fallback transport.
+   */
+  public close(): void {
+    this.closed = true
+    this.listeners.clear()
+    this.outOfOrder.clear()
+    this.fallbackListener?.()
+    this.receiveBuffer.interrupt()
+    this.fallback.close()
+  }
+
+  /**
+   * Delivers the messages in the receive buffer to the listeners, then waits for more until closed.
+   */
+  private async receive() {
+    this.receiving = true
+
+    while (!this.closed) {
+      const sequence = this.receiveBuffer.sequence
+
+      let record: Uint8Array | null
+      while (!this.closed && (record = this.receiveBuffer.read())) {
+        this.deliver(decodeMessage(record))
+      }
+
+      await this.receiveBuffer.waitForWrite(sequence)
+    }
+
+    this.receiving = false
+  }
+
+  /**
+   * Delivers a message from either path to the listeners. Messages sent before the other end opened
+   * the channel carry no sequence number and are delivered as they arrive; the others are held back
+   * until every message sent before them has been delivered.
+   * @param {GeneralMessage<any>} message The received message.
+   */
+  private deliver(message: GeneralMessage<any>) {
+    const sequence = (message as any)[SEQUENCE_PROPERTY]
+
+    if (typeof sequence !== 'number') {
+      this.notifyListeners(message)
+      return
+    }
+
+    delete (message as any)[SEQUENCE_PROPERTY]
+
+    if (sequence !== this.nextReceiveSequence) {
+      this.outOfOrder.set(sequence, message)
+      return
+    }
+
+    let next: GeneralMessage<any> | undefined = message
+    while (next && !this.closed) {
+      this.outOfOrder.delete(this.nextReceiveSequence++)
+      this.notifyListeners(next)
+      next = this.outOfOrder.get(this.nextReceiveSequence)
+    }
+  }
+
+  /**
+   * Calls every listener with a message, logging listeners that throw.
+   * @param {GeneralMessage<any>} message The message to deliver.
+   */
+  private notifyListeners(message: GeneralMessage<any>) {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(message)
+      } catch (error) {
+        this.logger.error('Failed to handle message from shared channel.', {
+          name: message.name,
+          error,
+        })
+      }
+    })
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * The number of bytes reserved at the start of the shared buffer for the ring buffer's indices.
+ */
+const HEADER_BYTES = 16
+
+/**
+ * The number of bytes in the length prefix of each record.
+ */
+const RECORD_HEADER_BYTES = 4
+
+/**
+ * The positions of the indices in the header.
+ */
+const READ_INDEX = 0
+const WRITE_INDEX = 1
+const SEQUENCE = 2
+const WAITING = 3
+
+/**
+ * How often to check for new records when `Atomics.waitAsync()` is not available.
+ */
+const POLL_INTERVAL_MS = 1
+
+/**
+ * A single-producer, single-consumer ring buffer of length-prefixed records in a `SharedArrayBuffer`.
+ * One thread writes records and the other reads them; the reader can wait for new records without
+ * blocking its event loop.
+ */
+export class SharedRingBuffer {
+  private header: Int32Array
+  private bytes: Uint8Array
+  private capacity: number
+  private notifyScheduled: boolean = false
+
+  /**
+   * Creates a shared buffer large enough for a ring buffer with the given capacity.
+   * @param {number} capacityBytes The number of bytes available for records.
+   * @returns {SharedArrayBuffer} The shared buffer to pass to both ends.
+   */
+  public static allocate(capacityBytes: number): SharedArrayBuffer {
+    return new SharedArrayBuffer(HEADER_BYTES + capacityBytes)
+  }
+
+  /**
+   * Creates an instance of the SharedRingBuffer.
+   * @param {SharedArrayBuffer} buffer The shared buffer created with `SharedRingBuffer.allocate()`.
+   */
+  constructor(buffer: SharedArrayBuffer) {
+    this.header = new Int32Array(buffer, 0, HEADER_BYTES / Int32Array.BYTES_PER_ELEMENT)
+    this.bytes = new Uint8Array(buffer, HEADER_BYTES)
+    this.capacity = this.bytes.length
+  }
+
+  /**
+   * The size in bytes of the largest record that fits in the buffer.
+   * @type {number}
+   */
+  public get maxRecordBytes(): number {
+    return this.capacity - RECORD_HEADER_BYTES - 1
+  }
+
+  /**
+   * A counter that changes whenever a record is written. Read it before reading records and pass it
+   * to `waitForWrite()` so that no write is missed in between.
+   * @type {number}
+   */
+  public get sequence(): number {
+    return Atomics.load(this.header, SEQUENCE)
+  }
+
+  /**
+   * Writes a record. If the reader is waiting, it is woken once the current task has finished, so a
+   * burst of writes costs a single notification.
+   * @param {Uint8Array} record The bytes to write.
+   * @returns {boolean} `true` if the record was written, `false` if there is not enough free space.
+   */
+  public write(record: Uint8Array): boolean {
+    const readIndex = Atomics.load(this.header, READ_INDEX)
+    const writeIndex = Atomics.load(this.header, WRITE_INDEX)
+    const used = (writeIndex - readIndex + this.capacity) % this.capacity
+    const free = this.capacity - used - 1
+
+    if (RECORD_HEADER_BYTES + record.length > free) {
+      return false
+    }
+
+    let index = writeIndex
+    for (let shift = 24; shift >= 0; shift -= 8) {
+      this.bytes[index] = (record.length >>> shift) & 0xff
+      index = (index + 1) % this.capacity
+    }
+    index = this.copyIn(record, index)
+
+    Atomics.store(this.header, WRITE_INDEX, index)
+    Atomics.add(this.header, SEQUENCE, 1)
+
+    if (!this.notifyScheduled) {
+      this.notifyScheduled = true
+      queueMicrotask(() => {
+        this.notifyScheduled = false
+        if (Atomics.compareExchange(this.header, WAITING, 1, 0) === 1) {
+          Atomics.notify(this.header, SEQUENCE)
+        }
+      })
+    }
+
+    return true
+  }
+
+  /**
+   * Reads the next record.
+   * @returns {Uint8Array | null} A copy of the record's bytes, or `null` if the buffer is empty.
+   */
+  public read(): Uint8Array | null {
+    const readIndex = Atomics.load(this.header, READ_INDEX)
+    const writeIndex = Atomics.load(this.header, WRITE_INDEX)
+
+    if (readIndex === writeIndex) {
+      return null
+    }
+
+    let index = readIndex
+    let length = 0
+    for (let i = 0; i < RECORD_HEADER_BYTES; i++) {
+      length = (length << 8) | this.bytes[index]
+      index = (index + 1) % this.capacity
+    }
+
+    const record = new Uint8Array(length >>> 0)
+    index = this.copyOut(record, index)
+
+    Atomics.store(this.header, READ_INDEX, index)
+    return record
+  }
+
+  /**
+   * Waits until a record is written after the given sequence, or `interrupt()` is called.
+   * @param {number} sequence The value of `sequence` before the buffer was last read.
+   * @returns {Promise<void>} A promise that resolves once there may be new records to read.
+   */
+  public waitForWrite(sequence: number): Promise<void> {
+    Atomics.store(this.header, WAITING, 1)
+
+    if (Atomics.load(this.header, SEQUENCE) !== sequence) {
+      Atomics.store(this.header, WAITING, 0)
+      return Promise.resolve()
+    }
+
+    const wait =
+      typeof Atomics.waitAsync === 'function'
+        ? Atomics.waitAsync(this.header, SEQUENCE, sequence)
+        : { async: true, value: new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS)) }
+
+    return Promise.resolve(wait.value).then(() => {
+      Atomics.store(this.header, WAITING, 0)
+    })
+  }
+
+  /**
+   * Wakes the reader if it is waiting in `waitForWrite()`.
+   */
+  public interrupt(): void {
+    Atomics.add(this.header, SEQUENCE, 1)
+    Atomics.notify(this.header, SEQUENCE)
+  }
+
+  private copyIn(source: Uint8Array, index: number): number {
+    const firstPart = Math.min(source.length, this.capacity - index)
+    this.bytes.set(source.subarray(0, firstPart), index)
+    this.bytes.set(source.subarray(firstPart), 0)
+    return (index + source.length) % this.capacity
+  }
+
+  private copyOut(target: Uint8Array, index: number): number {
+    const firstPart = Math.min(target.length, this.capacity - index)
+    target.set(this.bytes.subarray(index, index + firstPart))
+    target.set(this.bytes.subarray(0, target.length - firstPart), firstPart)
+    return (index + target.length) % this.capacity
+  }
+}
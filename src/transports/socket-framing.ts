@@ -0,0 +1,97 @@
+import { GeneralMessage } from '../models/general-message'
+
+/**
+ * The number of bytes in the length prefix of each frame.
+ */
+const FRAME_HEADER_BYTES = 4
+
+/**
+ * The default size in bytes of the largest frame body a `FrameDecoder` accepts.
+ */
+export const DEFAULT_MAX_FRAME_BYTES = 16 * 1024 * 1024
+
+/**
+ * Encode a message into a length-prefixed frame: a 32-bit big-endian byte length followed by
+ * the UTF-8 JSON encoding of the message.
+ * @param message The message to encode
+ * @returns The frame to write to the stream
+ */
+export function encodeFrame(message: GeneralMessage<any>): Buffer {
+  // Transferables cannot be written to a stream, so the message is always copied
+  const { transfer, ...copy } = message
+  const body = Buffer.from(JSON.stringify(copy), 'utf8')
+  const header = Buffer.alloc(FRAME_HEADER_BYTES)
+  header.writeUInt32BE(body.length, 0)
+  return Buffer.concat([header, body])
+}
+
+/**
+ * The messages decoded from a chunk by a `FrameDecoder`, and the error that stopped decoding, if any.
+ */
+export type DecodedFrames = {
+  messages: GeneralMessage<any>[]
+  error?: Error
+}
+
+/**
+ * Decodes length-prefixed frames from a stream of chunks.
+ * Chunks may split or combine frames arbitrarily; complete messages are returned as soon as
+ * all of their bytes have arrived.
+ */
+export class FrameDecoder {
+  private buffer: Buffer = Buffer.alloc(0)
+  private maxFrameBytes: number
+
+  /**
+   * Creates an instance of the FrameDecoder.
+   * @param {number} [maxFrameBytes] The size in bytes of the largest frame body to accept. Default is 16 MiB.
+   */
+  constructor(maxFrameBytes: number = DEFAULT_MAX_FRAME_BYTES) {
+    this.maxFrameBytes = maxFrameBytes
+  }
+
+  /**
+   * Adds a chunk read from the stream and decodes any frames it completes.
+   * If a frame is larger than the maximum or does not contain valid JSON, decoding stops with an error,
+   * and the messages decoded before it are still returned. The stream cannot be decoded any further
+   * and should be closed.
+   * @param {Buffer} chunk The chunk read from the stream.
+   * @returns {DecodedFrames} The messages completed by the chunk, in order, and the error, if any.
+   */
+  public push(chunk: Buffer): DecodedFrames {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk
+
+    const messages: GeneralMessage<any>[] = []
+
+    while (this.buffer.length >= FRAME_HEADER_BYTES) {
+      const length = this.buffer.readUInt32BE(0)
+      if (length > this.maxFrameBytes) {
+        const error = new Error(
+          `Frame of ${length} bytes exceeds the maximum of ${this.maxFrameBytes} bytes.`
+        )
+        return { messages, error }
+      }
+
+      if (this.buffer.length < FRAME_HEADER_BYTES + length) {
+        break
+      }
+
+      const body = this.buffer.subarray(FRAME_HEADER_BYTES, FRAME_HEADER_BYTES + length)
+      try {
+        messages.push(JSON.parse(body.toString('utf8')) as GeneralMessage<any>)
+      } catch (error) {
+        return { messages, error: error as Error }
+      }
+      this.buffer = this.buffer.subarray(FRAME_HEADER_BYTES + length)
+    }
+
+    return { messages }
+  }
+
+  /**
+   * Discards any partially received frame, e.g. after the stream reconnects.
+   */
+  public reset(): void {
+    this.buffer = Buffer.alloc(0)
+  }
+}
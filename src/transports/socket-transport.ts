@@ -0,0 +1,270 @@
+import type { Socket } from 'net'
+import { GeneralMessage } from '../models/general-message'
+import { Transport } from '../types/transport'
+import { TransportEvent } from '../types/transport-event'
+import { Logger } from '../types/logger'
+import { SilentLogger } from '../logging/silent-logger'
+import { DEFAULT_MAX_FRAME_BYTES, FrameDecoder, encodeFrame } from './socket-framing'
+
+/**
+ * Options that control how a `SocketTransport` reconnects after its connection is lost.
+ */
+export interface SocketReconnectOptions {
+  /**
+   * Whether to reconnect when the connection closes. Default is true.
+   * @type {boolean | undefined}
+   */
+  reconnect?: boolean
+
+  /**
+   * The number of milliseconds to wait before the first reconnection attempt. Default is 100.
+   * The delay doubles after each failed attempt.
+   * @type {number | undefined}
+   */
+  reconnectDelayMs?: number
+
+  /**
+   * The maximum number of milliseconds to wait between reconnection attempts. Default is 5000.
+   * @type {number | undefined}
+   */
+  maxReconnectDelayMs?: number
+
+  /**
+   * The number of consecutive failed reconnection attempts after which the transport gives up and
+   * closes for good. Default is unlimited.
+   * @type {number | undefined}
+   */
+  maxReconnectAttempts?: number
+}
+
+/**
+ * Options for a `SocketTransport`.
+ */
+export interface SocketTransportOptions extends SocketReconnectOptions {
+  /**
+   * The size in bytes of the largest frame accepted from the other side. Default is 16 MiB.
+   * The connection is closed when a larger frame, or a frame that is not valid JSON, is received.
+   * @type {number | undefined}
+   */
+  maxFrameBytes?: number
+
+  /**
+   * The number of messages queued while disconnected, after which sending throws. Default is 10000.
+   * @type {number | undefined}
+   */
+  maxQueueLength?: number
+}
+
+/**
+ * A transport over a stream socket (Unix domain socket or TCP) using length-prefixed JSON frames.
+ *
+ * The transport can wrap an already connected socket (e.g. one accepted by a server), or a
+ * `connect` function that it calls to establish the connection and, unless disabled, to re-establish
+ * it whenever it is lost. Messages sent while disconnected are queued and delivered after reconnecting.
+ * Once the connection is lost without reconnecting, an `exit` event is reported through `onEvent()`.
+ */
+export class SocketTransport implements Transport {
+  private socket: Socket | undefined = undefined
+  private connect: (() => Socket) | undefined = undefined
+  private options: Required<SocketTransportOptions>
+  private logger: Logger
+
+  private decoder: FrameDecoder
+  private listeners: Set<(message: GeneralMessage<any>) => void> = new Set()
+  private eventListeners: Set<(event: TransportEvent) => void> = new Set()
+  private queue: Buffer[] = []
+
+  private connected: boolean = false
+  private closed: boolean = false
+  private reconnectDelayMs: number
+  private reconnectAttempts: number = 0
+  private reconnectTimeout: ReturnType<typeof setTimeout> | undefined = undefined
+
+  /**
+   * Creates an instance of the SocketTransport.
+   * @param {Socket | (() => Socket)} socket A connected socket, or a function that opens a new connection.
+   * @param {SocketTransportOptions} [options] The largest frame to accept, and how to reconnect when the
+   *                                           connection is lost. Reconnecting only applies when a
+   *                                           `connect` function is given.
+   * @param {Logger} [logger] Where to log connection errors. Default is silent.
+   */
+  constructor(
+    socket: Socket | (() => Socket),
+    options: SocketTransportOptions = {},
+    logger: Logger = new SilentLogger()
+  ) {
+    this.logger = logger
+    this.options = {
+      reconnect: options.reconnect ?? true,
+      reconnectDelayMs: options.reconnectDelayMs ?? 100,
+      maxReconnectDelayMs: options.maxReconnectDelayMs ?? 5000,
+      maxReconnectAttempts: options.maxReconnectAttempts ?? Infinity,
+      maxFrameBytes: options.maxFrameBytes ?? DEFAULT_MAX_FRAME_BYTES,
+      maxQueueLength: options.maxQueueLength ?? 10000,
+    }
+    this.reconnectDelayMs = this.options.reconnectDelayMs
+    this.decoder = new FrameDecoder(this.options.maxFrameBytes)
+
+    if (typeof socket === 'function') {
+      this.connect = socket
+      this.attach(socket())
+    } else {
+      this.connected = !socket.connecting
+      this.attach(socket)
+    }
+  }
+
+  /**
+   * The number of messages waiting for the connection to be (re-)established.
+   * @type {number}
+   */
+  public get queueLength(): number {
+    return this.queue.length
+  }
+
+  /**
+   * Sends a message, or queues it while the connection is being (re-)established.
+   * @param {GeneralMessage<any>} message The message to send.
+   * @throws {Error} If the transport is closed, e.g. because its connection was lost and it does not reconnect,
+   * or if `maxQueueLength` messages are already waiting for the connection.
+   */
+  public send(message: GeneralMessage<any>): void {
+    if (this.closed) {
+      throw new Error(`Unable to send message "${message.name}" over a closed socket.`)
+    }
+
+    const frame = encodeFrame(message)
+
+    if (this.connected && this.socket) {
+      this.socket.write(frame)
+    } else if (this.queue.length < this.options.maxQueueLength) {
+      this.queue.push(frame)
+    } else {
+      throw new Error(
+        `Unable to queue message "${message.name}", ${this.queue.length} messages are already waiting for the connection.`
+      )
+    }
+  }
+
+  public onMessage(listener: (message: GeneralMessage<any>) => void): () => void {
+    this.listeners.add(listener)
+
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  public onEvent(listener: (event: TransportEvent) => void): () => void {
+    this.eventListeners.add(listener)
+
+    return () => {
+      this.eventListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Removes all listeners, stops reconnecting and closes the connection.
+   */
+  public close(): void {
+    this.closed = true
+    this.listeners.clear()
+    this.eventListeners.clear()
+    this.queue = []
+
+    if (this.reconnectTimeout !== undefined) {
+      clearTimeout(this.reconnectTimeout)
+      this.reconnectTimeout = undefined
+    }
+
+    this.socket?.end()
+  }
+
+  private attach(socket: Socket) {
+    this.socket = socket
+    this.decoder.reset()
+
+    socket.on('connect', () => {
+      this.connected = true
+      this.reconnectDelayMs = this.options.reconnectDelayMs
+      this.reconnectAttempts = 0
+      this.flush()
+    })
+
+    socket.on('data', (chunk: Buffer) => {
+      const { messages, error } = this.decoder.push(chunk)
+
+      // Deliver the frames that arrived intact before any bad one
+      messages.forEach((message) => {
+        this.listeners.forEach((listener) => listener(message))
+      })
+
+      if (error) {
+        // The rest of the stream cannot be framed reliably, so drop the connection
+        this.logger.error('Unable to decode frame, closing connection.', { error: error.message })
+        socket.destroy()
+      }
+    })
+
+    socket.on('end', () => {
+      // The other side is closing, so queue anything sent from now on for the next connection
+      this.connected = false
+    })
+
+    socket.on('error', (error) => {
+      this.logger.error('Socket connection error.', { error: error.message })
+    })
+
+    socket.on('close', () => {
+      this.connected = false
+      if (this.socket === socket) {
+        this.scheduleReconnect()
+      }
+    })
+  }
+
+  private flush() {
+    const queue = this.queue
+    this.queue = []
+    queue.forEach((frame) => this.socket?.write(frame))
+  }
+
+  private scheduleReconnect() {
+    if (this.closed) {
+      return
+    }
+
+    if (!this.connect || !this.options.reconnect) {
+      // Without a way to reconnect, the transport is finished once its socket closes
+      this.finish(new Error('Connection closed.'))
+      return
+    }
+
+    if (this.reconnectAttempts >= this.options.maxReconnectAttempts) {
+      this.finish(new Error(`Unable to reconnect after ${this.reconnectAttempts} attempts.`))
+      return
+    }
+
+    const delay = this.reconnectDelayMs
+    this.reconnectDelayMs = Math.min(delay * 2, this.options.maxReconnectDelayMs)
+    this.reconnectAttempts++
+
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = undefined
+      if (!this.closed) {
+        this.attach(this.connect!())
+      }
+    }, delay)
+  }
+
+  /**
+   * Closes the transport for good after its connection was lost, and reports it as an `exit` so
+   * that requests waiting for a response over it are rejected.
+   * @param {Error} error Why the connection is not re-established.
+   */
+  private finish(error: Error) {
+    this.closed = true
+    this.queue = []
+    this.logger.warn('Socket connection closed for good.', { error: error.message })
+    this.eventListeners.forEach((listener) => listener({ type: 'exit', error }))
+  }
+}
@@ -0,0 +1,68 @@
+import { Transport } from '../types/transport'
+import { TransportTarget } from '../types/transport-target'
+import { ChildProcessTransport } from './child-process-transport'
+import { MessagePortTransport } from './message-port-transport'
+import { WebWorkerTransport } from './web-worker-transport'
+import { WorkerThreadsTransport } from './worker-threads-transport'
+
+/**
+ * Determines if an object implements the `Transport` interface.
+ * @param target The object to check
+ * @returns `true` if the object has `send`, `onMessage` and `close` functions
+ */
+export function isTransport(target: any): target is Transport {
+  return (
+    !!target &&
+    typeof target.send === 'function' &&
+    typeof target.onMessage === 'function' &&
+    typeof target.close === 'function'
+  )
+}
+
+/**
+ * Convert a worker, port or scope into a Transport.
+ * If the target is already a Transport, return it as is.
+ * Otherwise, wrap it in the built-in adapter matching its API:
+ * - EventEmitter-style `on`/`off` (worker_threads `Worker`, `parentPort`, `MessagePort`): WorkerThreadsTransport
+ * - `start`/`close` with `addEventListener` (Web `MessagePort`): MessagePortTransport
+ * - `addEventListener`/`removeEventListener` (Web `Worker`, `self`): WebWorkerTransport
+ * - `send` with `on`/`off` (forked `ChildProcess`, child `process`): ChildProcessTransport
+ * @param target The worker, port, scope or Transport
+ * @returns A Transport for the target
+ */
+export function toTransport(target: TransportTarget): Transport {
+  if (isTransport(target)) {
+    return target
+  }
+
+  // The checks are made at runtime too, since JavaScript callers can pass anything
+  if (target && 'postMessage' in target && typeof target.postMessage === 'function') {
+    if ('on' in target && typeof target.on === 'function' && typeof target.off === 'function') {
+      return new WorkerThreadsTransport(target)
+    }
+
+    if ('addEventListener' in target && typeof target.addEventListener === 'function') {
+      if (
+        'start' in target &&
+        typeof target.start === 'function' &&
+        typeof target.close === 'function'
+      ) {
+        return new MessagePortTransport(target)
+      }
+
+      return new WebWorkerTransport(target)
+    }
+  }
+
+  if (
+    target &&
+    'send' in target &&
+    typeof target.send === 'function' &&
+    typeof target.on === 'function' &&
+    typeof target.off === 'function'
+  ) {
+    return new ChildProcessTransport(target)
+  }
+
+  throw new Error(`Unable to create a transport for: ${target}`)
+}
@@ -0,0 +1,80 @@
+import { GeneralMessage } from '../models/general-message'
+import { Transport } from '../types/transport'
+import { TransportEvent } from '../types/transport-event'
+
+/**
+ * The subset of the Web `Worker` and worker global scope (`self`) APIs used by the transport.
+ */
+export type WebWorkerEndpoint = {
+  postMessage(message: any, transfer: Transferable[]): void
+  addEventListener(type: 'message' | 'messageerror', listener: (event: MessageEvent) => void): void
+  addEventListener(type: 'error', listener: (event: ErrorEvent) => void): void
+  removeEventListener(
+    type: 'message' | 'messageerror',
+    listener: (event: MessageEvent) => void
+  ): void
+  removeEventListener(type: 'error', listener: (event: ErrorEvent) => void): void
+  terminate?: () => void
+}
+
+/**
+ * A transport over a Web `Worker` (from the parent) or the worker's global scope `self` (from the worker).
+ * Messages are delivered through `addEventListener('message')` and unwrapped from `MessageEvent.data`.
+ */
+export class WebWorkerTransport implements Transport {
+  private endpoint: WebWorkerEndpoint
+  private listeners: Set<(event: MessageEvent) => void> = new Set()
+  private eventListeners: Set<() => void> = new Set()
+
+  /**
+   * Creates an instance of the WebWorkerTransport.
+   * @param {WebWorkerEndpoint} endpoint The `Worker` or `self` to communicate through.
+   */
+  constructor(endpoint: WebWorkerEndpoint) {
+    this.endpoint = endpoint
+  }
+
+  public send(message: GeneralMessage<any>): void {
+    this.endpoint.postMessage(message, message.transfer ?? [])
+  }
+
+  public onMessage(listener: (message: GeneralMessage<any>) => void): () => void {
+    const eventListener = (event: MessageEvent) => listener(event.data as GeneralMessage<any>)
+    this.endpoint.addEventListener('message', eventListener)
+    this.listeners.add(eventListener)
+
+    return () => {
+      this.endpoint.removeEventListener('message', eventListener)
+      this.listeners.delete(eventListener)
+    }
+  }
+
+  public onEvent(listener: (event: TransportEvent) => void): () => void {
+    const errorListener = (event: ErrorEvent) =>
+      listener({ type: 'error', error: event.error ?? new Error(event.message) })
+    const messageErrorListener = () =>
+      listener({ type: 'messageerror', error: new Error('Unable to deserialize message.') })
+
+    this.endpoint.addEventListener('error', errorListener)
+    this.endpoint.addEventListener('messageerror', messageErrorListener)
+
+    const removeListeners = () => {
+      this.endpoint.removeEventListener('error', errorListener)
+      this.endpoint.removeEventListener('messageerror', messageErrorListener)
+      this.eventListeners.delete(removeListeners)
+    }
+    this.eventListeners.add(removeListeners)
+
+    return removeListeners
+  }
+
+  /**
+   * Removes all listeners and terminates the endpoint if it is a `Worker`.
+   */
+  public close(): void {
+    this.listeners.forEach((listener) => this.endpoint.removeEventListener('message', listener))
+    this.listeners.clear()
+    this.eventListeners.forEach((removeListeners) => removeListeners())
+    this.endpoint.terminate?.()
+  }
+}
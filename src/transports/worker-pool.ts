@@ -0,0 +1,308 @@
+import { GeneralMessage } from '../models/general-message'
+import { ResponseMessage } from '../models/response-message'
+import { CancelMessage } from '../models/cancel-message'
+import { MessageType } from '../types/message-type'
+import { Messenger } from '../types/messenger'
+import type { RestartPolicy } from '../types/add-worker-options'
+import { Transport } from '../types/transport'
+import { TransportTarget } from '../types/transport-target'
+import { TransportEvent } from '../types/transport-event'
+import { messengerAsString } from '../utils/messenger-utils'
+import { toTransport } from './transport-utils'
+
+/**
+ * How a `WorkerPool` chooses the member that receives each message.
+ * - `round-robin`: members take turns in order.
+ * - `least-outstanding-requests`: the member with the fewest requests awaiting a response.
+ */
+export type WorkerPoolStrategy = 'round-robin' | 'least-outstanding-requests'
+
+/**
+ * Options for creating a `WorkerPool`.
+ */
+export interface WorkerPoolOptions {
+  /**
+   * The number of workers in the pool. Default is 1.
+   * @type {number | undefined}
+   */
+  size?: number
+
+  /**
+   * How messages are balanced across the workers. Default is `round-robin`.
+   * @type {WorkerPoolStrategy | undefined}
+   */
+  strategy?: WorkerPoolStrategy
+
+  /**
+   * How often and how quickly crashed members are replaced, for pools added with
+   * `MessagingService.addWorkerPool()`.
+   * @type {RestartPolicy | undefined}
+   */
+  restartPolicy?: RestartPolicy
+}
+
+/**
+ * Creates a member of a `WorkerPool`.
+ * Every member must use the pool's messenger (e.g. as `workerData.name`) so replies route back correctly.
+ * @param {string} messenger The messenger shared by all members of the pool.
+ * @param {number} index The index of the new member, unique for the lifetime of the pool.
+ * @returns {TransportTarget} The Transport, or a worker or port to wrap in one.
+ */
+export type WorkerPoolFactory = (messenger: string, index: number) => TransportTarget
+
+type WorkerPoolMember = {
+  index: number
+  transport: Transport
+  outstanding: number
+  removeListeners: () => void
+}
+
+/**
+ * A transport that load-balances messages across a pool of interchangeable workers that share a
+ * single messenger name. Broadcast messages are sent to every member.
+ *
+ * The pool tracks which member each request was sent to, so responses are counted against the right
+ * member for `least-outstanding-requests` and cancels reach the member handling the request. A request
+ * is settled by its response, error response or stream end, or when it is cancelled. Members removed by
+ * `resize()` stop receiving new messages and are closed once their outstanding requests have settled.
+ *
+ * A member that crashes or exits is removed from the pool, and the event is reported through
+ * `onEvent()` with the ids of the requests it was handling, which will not be answered. The crash of
+ * a member that `resize()` was removing is reported with `replace: false`.
+ */
+export class WorkerPool implements Transport {
+  private messenger: string
+  private factory: WorkerPoolFactory
+  private strategy: WorkerPoolStrategy
+
+  private members: WorkerPoolMember[] = []
+  private draining: Set<WorkerPoolMember> = new Set()
+  private requests: Map<any, WorkerPoolMember> = new Map()
+  private listeners: Set<(message: GeneralMessage<any>) => void> = new Set()
+  private eventListeners: Set<(event: TransportEvent) => void> = new Set()
+
+  private nextIndex: number = 0
+  private nextMember: number = 0
+
+  /**
+   * Creates an instance of the WorkerPool and its initial members.
+   * @param {Messenger} messenger The messenger shared by all members of the pool.
+   * @param {WorkerPoolFactory} factory Creates each member of the pool.
+   * @param {WorkerPoolOptions} [options] The size of the pool and how messages are balanced.
+   */
+  constructor(messenger: Messenger, factory: WorkerPoolFactory, options: WorkerPoolOptions = {}) {
+    this.messenger = messengerAsString(messenger)
+    this.factory = factory
+    this.strategy = options.strategy ?? 'round-robin'
+    this.resize(options.size ?? 1)
+  }
+
+  /**
+   * The number of members receiving new messages.
+   * @type {number}
+   */
+  public get size(): number {
+    return this.members.length
+  }
+
+  /**
+   * The number of requests sent to the members of the pool that are awaiting a response.
+   * @type {number}
+   */
+  public get queueLength(): number {
+    return this.requests.size
+  }
+
+  /**
+   * Changes the number of members in the pool.
+   * New members are created with the factory; removed members finish their outstanding requests first.
+   * @param {number} size The new number of members.
+   */
+  public resize(size: number): void {
+    if (!Number.isInteger(size) || size < 0) {
+      throw new Error(`Invalid worker pool size: ${size}`)
+    }
+
+    while (this.members.length < size) {
+      this.members.push(this.createMember())
+    }
+
+    while (this.members.length > size) {
+      this.drainMember(this.members.pop()!)
+    }
+  }
+
+  public send(message: GeneralMessage<any>): void {
+    if (message.broadcast) {
+      // Transferred objects can only be sent once, so broadcasts are copied to every member
+      const { transfer, ...copy } = message
+      this.members.forEach((member) => member.transport.send(copy as GeneralMessage<any>))
+      return
+    }
+
+    if (message.type === MessageType.CANCEL) {
+      // Cancels go to the member handling the request, which no longer needs to respond
+      const requestId = (message as CancelMessage).requestId
+      this.requests.get(requestId)?.transport.send(message)
+      this.settleRequest(requestId)
+      return
+    }
+
+    const member = this.selectMember()
+    if (!member) {
+      throw new Error(`Unable to send message "${message.name}" to an empty worker pool.`)
+    }
+
+    if (message.type === MessageType.REQUEST) {
+      member.outstanding++
+      this.requests.set(message.id, member)
+    }
+
+    member.transport.send(message)
+  }
+
+  public onMessage(listener: (message: GeneralMessage<any>) => void): () => void {
+    this.listeners.add(listener)
+
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  public onEvent(listener: (event: TransportEvent) => void): () => void {
+    this.eventListeners.add(listener)
+
+    return () => {
+      this.eventListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Removes all listeners and closes every member of the pool.
+   */
+  public close(): void {
+    this.listeners.clear()
+    this.eventListeners.clear()
+    this.members.forEach((member) => this.closeMember(member))
+    this.draining.forEach((member) => this.closeMember(member))
+    this.members = []
+    this.draining.clear()
+    this.requests.clear()
+  }
+
+  private createMember(): WorkerPoolMember {
+    const index = this.nextIndex++
+    const transport = toTransport(this.factory(this.messenger, index))
+
+    const member: WorkerPoolMember = {
+      index,
+      transport,
+      outstanding: 0,
+      removeListeners: () => {},
+    }
+
+    const messageListener = transport.onMessage((message) => {
+      if (
+        message.type === MessageType.RESPONSE ||
+        message.type === MessageType.ERROR ||
+        message.type === MessageType.STREAM_END
+      ) {
+        this.settleRequest((message as ResponseMessage<any>).requestId)
+      }
+      this.listeners.forEach((listener) => listener(message))
+    })
+    const eventListener = transport.onEvent?.((event) => this.handleMemberEvent(member, event))
+
+    member.removeListeners = () => {
+      messageListener()
+      eventListener?.()
+    }
+
+    return member
+  }
+
+  /**
+   * Handles a lifecycle event of a member. Errors and exits are treated as crashes: the member is
+   * removed and closed, and the event is reported with the ids of the requests it was handling.
+   * @param {WorkerPoolMember} member The member that reported the event.
+   * @param {TransportEvent} event The lifecycle event.
+   */
+  private handleMemberEvent(member: WorkerPoolMember, event: TransportEvent) {
+    if (event.type === 'messageerror') {
+      this.eventListeners.forEach((listener) => listener(event))
+      return
+    }
+
+    // An error is usually followed by an exit, so only handle the first for each member
+    if (!this.members.includes(member) && !this.draining.has(member)) {
+      return
+    }
+
+    // A member that resize() was removing should not be replaced, or the pool would grow back
+    const replace = !this.draining.has(member)
+
+    const requestIds: any[] = []
+    this.requests.forEach((requestMember, requestId) => {
+      if (requestMember === member) {
+        requestIds.push(requestId)
+      }
+    })
+
+    this.members = this.members.filter((m) => m !== member)
+    this.draining.delete(member)
+    this.closeMember(member)
+
+    this.eventListeners.forEach((listener) =>
+      listener(replace ? { ...event, requestIds } : { ...event, requestIds, replace })
+    )
+  }
+
+  private selectMember(): WorkerPoolMember | undefined {
+    if (this.members.length === 0) {
+      return undefined
+    }
+
+    if (this.strategy === 'least-outstanding-requests') {
+      return this.members.reduce((least, member) =>
+        member.outstanding < least.outstanding ? member : least
+      )
+    }
+
+    const member = this.members[this.nextMember % this.members.length]
+    this.nextMember = (this.nextMember + 1) % this.members.length
+    return member
+  }
+
+  private settleRequest(requestId: any) {
+    const member = this.requests.get(requestId)
+
+    if (member) {
+      this.requests.delete(requestId)
+      member.outstanding--
+
+      if (this.draining.has(member) && member.outstanding === 0) {
+        this.draining.delete(member)
+        this.closeMember(member)
+      }
+    }
+  }
+
+  private drainMember(member: WorkerPoolMember) {
+    if (member.outstanding === 0) {
+      this.closeMember(member)
+    } else {
+      this.draining.add(member)
+    }
+  }
+
+  private closeMember(member: WorkerPoolMember) {
+    member.removeListeners()
+    member.transport.close()
+
+    this.requests.forEach((requestMember, requestId) => {
+      if (requestMember === member) {
+        this.requests.delete(requestId)
+      }
+    })
+  }
+}
@@ -0,0 +1,75 @@
+import { GeneralMessage } from '../models/general-message'
+import { Transport } from '../types/transport'
+import { TransportEvent } from '../types/transport-event'
+
+/**
+ * The subset of the worker_threads `Worker`, `parentPort` and `MessagePort` APIs used by the transport.
+ */
+export type WorkerThreadsEndpoint = {
+  postMessage(message: any, transferList?: readonly any[]): void
+  on(event: 'message' | 'error' | 'exit' | 'messageerror', listener: (value: any) => void): any
+  off(event: 'message' | 'error' | 'exit' | 'messageerror', listener: (value: any) => void): any
+  terminate?: () => any
+}
+
+/**
+ * A transport over a worker_threads `Worker` (from the parent) or `parentPort` (from the worker).
+ * Messages are delivered through the EventEmitter-style `on('message')` API.
+ */
+export class WorkerThreadsTransport implements Transport {
+  private endpoint: WorkerThreadsEndpoint
+  private listeners: Set<(message: any) => void> = new Set()
+  private eventListeners: Set<() => void> = new Set()
+
+  /**
+   * Creates an instance of the WorkerThreadsTransport.
+   * @param {WorkerThreadsEndpoint} endpoint The `Worker`, `parentPort` or `MessagePort` to communicate through.
+   */
+  constructor(endpoint: WorkerThreadsEndpoint) {
+    this.endpoint = endpoint
+  }
+
+  public send(message: GeneralMessage<any>): void {
+    this.endpoint.postMessage(message, message.transfer ?? [])
+  }
+
+  public onMessage(listener: (message: GeneralMessage<any>) => void): () => void {
+    this.endpoint.on('message', listener)
+    this.listeners.add(listener)
+
+    return () => {
+      this.endpoint.off('message', listener)
+      this.listeners.delete(listener)
+    }
+  }
+
+  public onEvent(listener: (event: TransportEvent) => void): () => void {
+    const errorListener = (error: Error) => listener({ type: 'error', error })
+    const exitListener = (exitCode: number) => listener({ type: 'exit', exitCode })
+    const messageErrorListener = (error: Error) => listener({ type: 'messageerror', error })
+
+    this.endpoint.on('error', errorListener)
+    this.endpoint.on('exit', exitListener)
+    this.endpoint.on('messageerror', messageErrorListener)
+
+    const removeListeners = () => {
+      this.endpoint.off('error', errorListener)
+      this.endpoint.off('exit', exitListener)
+      this.endpoint.off('messageerror', messageErrorListener)
+      this.eventListeners.delete(removeListeners)
+    }
+    this.eventListeners.add(removeListeners)
+
+    return removeListeners
+  }
+
+  /**
+   * Removes all listeners and terminates the endpoint if it is a `Worker`.
+   */
+  public close(): void {
+    this.listeners.forEach((listener) => this.endpoint.off('message', listener))
+    this.listeners.clear()
+    this.eventListeners.forEach((removeListeners) => removeListeners())
+    this.endpoint.terminate?.()
+  }
+}
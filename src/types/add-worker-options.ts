@@ -0,0 +1,62 @@
+import { TransportTarget } from './transport-target'
+import type { SharedChannelOptions } from '../transports/shared-channel-transport'
+
+/**
+ * Controls how often and how quickly a supervised worker is restarted after it crashes.
+ */
+export interface RestartPolicy {
+  /**
+   * The maximum number of times the worker is restarted. Default is 3.
+   * @type {number | undefined}
+   */
+  maxRestarts?: number
+
+  /**
+   * The number of milliseconds to wait before the first restart. Default is 100.
+   * The delay doubles after each restart.
+   * @type {number | undefined}
+   */
+  backoffMs?: number
+
+  /**
+   * The maximum number of milliseconds to wait before a restart. Default is 10000.
+   * @type {number | undefined}
+   */
+  maxBackoffMs?: number
+}
+
+/**
+ * Options for delivering messages to and supervising a worker added with `MessagingService.addWorker()`.
+ */
+export interface AddWorkerOptions {
+  /**
+   * Whether to buffer messages for the worker until its MessagingService announces that it is ready.
+   * Buffering is opt-in: by default, messages are posted to the worker as soon as they are sent, and
+   * messages sent before the worker has registered its listeners may be lost. `spawnWorker()` always
+   * turns it on. Only use this for workers that run a MessagingService, since other workers never
+   * announce readiness and their messages would stay buffered.
+   * Default is false.
+   * @type {boolean | undefined}
+   */
+  waitForReady?: boolean
+
+  /**
+   * Opens a high-throughput shared memory channel to the worker, if `SharedArrayBuffer` is available.
+   * Only use this for direct children that run a MessagingService; other messages still use `postMessage()`.
+   * @type {SharedChannelOptions | undefined}
+   */
+  sharedChannel?: SharedChannelOptions
+
+  /**
+   * Creates a replacement worker after the worker crashes. Without a factory, crashed workers are
+   * removed and not restarted.
+   * @type {(() => TransportTarget) | undefined}
+   */
+  factory?: () => TransportTarget
+
+  /**
+   * How often and how quickly the worker is restarted with the factory.
+   * @type {RestartPolicy | undefined}
+   */
+  restartPolicy?: RestartPolicy
+}
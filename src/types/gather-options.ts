@@ -0,0 +1,45 @@
+import { MessageHeaders } from './message-headers'
+import { Messenger } from './messenger'
+
+/**
+ * Options that control how `MessagingService.gather()` broadcasts a request and collects its responses.
+ */
+export interface GatherOptions {
+  /**
+   * The root of the subtree to broadcast the request to. Default is the request's destination.
+   * @type {Messenger | undefined}
+   */
+  scope?: Messenger
+
+  /**
+   * The messengers expected to respond. Gathering completes once all of them have responded, and
+   * those that did not respond in time are reported in `GatherResult.missing`.
+   * @type {Messenger[] | undefined}
+   */
+  expected?: Messenger[]
+
+  /**
+   * The number of successful responses after which gathering completes early.
+   * @type {number | undefined}
+   */
+  quorum?: number
+
+  /**
+   * The number of milliseconds to collect responses for. Default is the service-wide
+   * `requestTimeoutMs`, or 1000 if it is not set.
+   * @type {number | undefined}
+   */
+  timeoutMs?: number
+
+  /**
+   * A signal that, when aborted, stops gathering and rejects with a `RequestAbortedError`.
+   * @type {AbortSignal | undefined}
+   */
+  signal?: AbortSignal
+
+  /**
+   * Headers to add to `request.headers`, replacing any with the same names.
+   * @type {MessageHeaders | undefined}
+   */
+  headers?: MessageHeaders
+}
@@ -0,0 +1,65 @@
+import { ResponseMessage } from '../models/response-message'
+import { RemoteError } from '../errors/remote-error'
+
+/**
+ * A response collected by `MessagingService.gather()`.
+ */
+export interface GatheredResponse<V> {
+  /**
+   * The messenger that responded (e.g. `/workers/one`).
+   * @type {string}
+   */
+  source: string
+
+  /**
+   * The response message.
+   * @type {ResponseMessage<V>}
+   */
+  response: ResponseMessage<V>
+}
+
+/**
+ * An error response collected by `MessagingService.gather()`.
+ */
+export interface GatheredError {
+  /**
+   * The messenger that failed to handle the request.
+   * @type {string}
+   */
+  source: string
+
+  /**
+   * The error thrown by the remote handler.
+   * @type {RemoteError}
+   */
+  error: RemoteError
+}
+
+/**
+ * The responses collected by `MessagingService.gather()`, in the order they arrived.
+ */
+export interface GatherResult<V> {
+  /**
+   * The successful responses.
+   * @type {GatheredResponse<V>[]}
+   */
+  responses: GatheredResponse<V>[]
+
+  /**
+   * The error responses.
+   * @type {GatheredError[]}
+   */
+  errors: GatheredError[]
+
+  /**
+   * The expected messengers that did not respond before gathering completed.
+   * @type {string[]}
+   */
+  missing: string[]
+
+  /**
+   * Whether gathering stopped because its timeout elapsed rather than because it was complete.
+   * @type {boolean}
+   */
+  timedOut: boolean
+}
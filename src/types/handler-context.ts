@@ -0,0 +1,22 @@
+import { ProgressUpdate } from './progress-update'
+
+/**
+ * The context a `MessageHandler` is called with, to interact with the requester while it handles a message.
+ */
+export interface HandlerContext {
+  /**
+   * Aborts when the requester cancels the request, because its own signal aborted, its timeout
+   * elapsed or it stopped consuming a stream. Its reason is a `RequestAbortedError`. After it aborts,
+   * the handler's result is no longer sent. It never aborts for messages that are not requests.
+   * @type {AbortSignal}
+   */
+  signal: AbortSignal
+
+  /**
+   * Reports the progress of the request being handled to its requester, correlated by the request's
+   * ID. Updates are only sent if the requester subscribed with `SendMessageOptions.onProgress`, and
+   * are ignored for messages that are not requests.
+   * @param {ProgressUpdate} update The percentage, stage or payload to report.
+   */
+  progress(update: ProgressUpdate): void
+}
@@ -0,0 +1,28 @@
+/**
+ * The severity of a log entry, from most to least verbose.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * Structured data attached to a log entry (e.g. the messenger, message name or error).
+ */
+export type LogFields = Record<string, any>
+
+/**
+ * Receives the log entries of a `MessagingService` and its transports.
+ * Per-message entries are logged at `debug`, lifecycle changes (workers added, restarted, ...) at `info`.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+
+  /**
+   * Determines if entries of a level are logged, so that callers can skip building their fields.
+   * Optional: loggers that do not implement it are called for every entry.
+   * @param {LogLevel} level The level of the entry.
+   * @returns {boolean} `true` if entries of the level are logged.
+   */
+  isLevelEnabled?(level: LogLevel): boolean
+}
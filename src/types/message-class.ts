@@ -0,0 +1,6 @@
+import { GeneralMessage } from '../models/general-message'
+
+/**
+ * A `GeneralMessage` class (or subclass) that received messages can be revived into.
+ */
+export type MessageClass<T = any> = abstract new (...args: any[]) => GeneralMessage<T>
@@ -0,0 +1,19 @@
+import { GeneralMessage } from '../models/general-message'
+import { HandlerContext } from './handler-context'
+
+/**
+ * Handles messages with a given name that are registered with `MessagingService.handle()`.
+ * For request messages, the returned (or resolved) value is sent back to the requester as the data of a
+ * `ResponseMessage`; if the handler throws (or rejects), an `ErrorResponseMessage` is sent instead.
+ * A handler that returns an async iterable (e.g. an async generator) streams its values to requesters
+ * using `MessagingService.stream()`, and responds with them as an array to other requests.
+ * The context reports the progress of a request to its requester.
+ *
+ * @template T The type of data the handled message contains.
+ * @template V The type of data the handler returns.
+ */
+export type MessageHandler<T = any, V = any> = (
+  data: T | undefined,
+  message: GeneralMessage<T>,
+  context: HandlerContext
+) => V | Promise<V>
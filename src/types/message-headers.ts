@@ -0,0 +1,5 @@
+/**
+ * Application-defined metadata carried with a message (e.g. tenant, auth or trace information),
+ * kept separate from its data and preserved across forwarding hops.
+ */
+export type MessageHeaders = Record<string, string | number | boolean | null>
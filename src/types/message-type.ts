@@ -2,4 +2,11 @@ export enum MessageType {
   GENERAL = 'general',
   REQUEST = 'request',
   RESPONSE = 'response',
+  ERROR = 'error',
+  READY = 'ready',
+  SHARED_CHANNEL = 'shared-channel',
+  STREAM_CHUNK = 'stream-chunk',
+  STREAM_END = 'stream-end',
+  CANCEL = 'cancel',
+  PROGRESS = 'progress',
 }
@@ -0,0 +1,45 @@
+import { GeneralMessage } from '../models/general-message'
+
+/**
+ * Why a message was dead-lettered instead of delivered:
+ * - `expired`: it arrived after its `expiresAt`.
+ * - `max-hops`: it was forwarded more than `maxHops` times.
+ * - `loop`: it arrived at a messenger it already passed through, e.g. because a worker's name does
+ *   not match the name it was added with.
+ * - `no-route`: there is no worker or upstream to send or forward it to.
+ * - `send-failed`: sending a message the service produced itself (e.g. a response) failed, e.g.
+ *   because send middleware threw.
+ */
+export type DeadLetterReason = 'expired' | 'max-hops' | 'loop' | 'no-route' | 'send-failed'
+
+/**
+ * The events emitted by `MessagingService.events`, mapped to their payloads.
+ */
+export interface MessagingServiceEvents {
+  /**
+   * A worker's MessagingService announced that it is ready to receive messages.
+   */
+  'worker-ready': { worker: string }
+
+  /**
+   * A worker threw an uncaught error or exited. Pending requests routed through it have been
+   * rejected with a `WorkerCrashedError` and the worker has been removed. For a member of a worker
+   * pool, only the requests it was handling are rejected and only the member is removed.
+   */
+  'worker-crashed': { worker: string; error: Error; willRestart: boolean }
+
+  /**
+   * A message from a worker could not be deserialized. The worker remains connected.
+   */
+  'worker-message-error': { worker: string; error: Error }
+
+  /**
+   * A crashed worker, or a crashed member of a worker pool, was replaced with a new one from its factory.
+   */
+  'worker-restarted': { worker: string; restarts: number }
+
+  /**
+   * A message was dropped instead of delivered. Requests are not answered, so their senders time out.
+   */
+  'dead-letter': { message: GeneralMessage<any>; reason: DeadLetterReason }
+}
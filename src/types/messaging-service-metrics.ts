@@ -0,0 +1,78 @@
+/**
+ * What happened to a message at a `MessagingService`:
+ * - `sent`: sent by the service to one or more workers or its upstream.
+ * - `received`: addressed to the service and passed to its handlers.
+ * - `forwarded`: passed through the service on the way to its destination.
+ * - `dropped`: not delivered, e.g. because no route was found or middleware did not call `next()`.
+ */
+export type MessageOutcome = 'sent' | 'received' | 'forwarded' | 'dropped'
+
+/**
+ * The number of messages with a name and destination, by outcome.
+ */
+export type MessageCounter = {
+  name: string
+  destination: string
+} & Record<MessageOutcome, number>
+
+/**
+ * A histogram of the round-trip latency of the requests with a name and destination.
+ */
+export type RequestLatencyHistogram = {
+  name: string
+  destination: string
+
+  /**
+   * The number of requests with a latency less than or equal to each bucket's upper bound, in milliseconds.
+   * @type {{ le: number; count: number }[]}
+   */
+  buckets: { le: number; count: number }[]
+
+  /**
+   * The number of requests that were answered, failed or timed out.
+   * @type {number}
+   */
+  count: number
+
+  /**
+   * The total latency of all requests, in milliseconds.
+   * @type {number}
+   */
+  sum: number
+
+  /**
+   * The number of requests that failed (error responses, timeouts and aborts).
+   * @type {number}
+   */
+  failures: number
+}
+
+/**
+ * The state of a worker of a `MessagingService`.
+ */
+export type WorkerMetrics = {
+  worker: string
+
+  /**
+   * The number of messages waiting to be delivered to the worker (see `Transport.queueLength`).
+   * @type {number}
+   */
+  queueDepth: number
+}
+
+/**
+ * A snapshot of the metrics of a `MessagingService`, returned by `getMetrics()`.
+ */
+export type MessagingServiceMetrics = {
+  messenger: string
+  messages: MessageCounter[]
+  requests: RequestLatencyHistogram[]
+
+  /**
+   * The number of requests waiting for a response.
+   * @type {number}
+   */
+  pendingRequests: number
+
+  workers: WorkerMetrics[]
+}
@@ -0,0 +1,51 @@
+import { Messenger } from './messenger'
+import { Logger } from './logger'
+import { SpanExporter } from './span-exporter'
+import { TransportTarget } from './transport-target'
+
+/**
+ * Options for creating an independent `MessagingService` with `MessagingService.create()`.
+ */
+export interface MessagingServiceOptions {
+  /**
+   * The messenger identifier for the service. Default is the root messenger `/`.
+   * @type {Messenger | undefined}
+   */
+  messenger?: Messenger
+
+  /**
+   * The Transport, or a worker, port or scope to wrap in one, used to reach the parent messenger.
+   * @type {TransportTarget | undefined}
+   */
+  upstream?: TransportTarget
+
+  /**
+   * The default number of milliseconds to wait for a response to a request (see `requestTimeoutMs`).
+   * @type {number | undefined}
+   */
+  requestTimeoutMs?: number
+
+  /**
+   * The number of times a message can be forwarded before it is dead-lettered (see `maxHops`).
+   * @type {number | undefined}
+   */
+  maxHops?: number
+
+  /**
+   * Where to export the spans of the messages the service sends, forwards and handles (see `spanExporter`).
+   * @type {SpanExporter | undefined}
+   */
+  spanExporter?: SpanExporter
+
+  /**
+   * The upper bounds of the request latency histogram buckets in milliseconds (see `getMetrics()`).
+   * @type {number[] | undefined}
+   */
+  latencyBucketsMs?: number[]
+
+  /**
+   * Where the service and its transports log (see `logger`). Default is `MessagingService.defaultLogger`.
+   * @type {Logger | undefined}
+   */
+  logger?: Logger
+}
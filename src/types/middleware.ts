@@ -0,0 +1,58 @@
+import { GeneralMessage } from '../models/general-message'
+import { ResponseMessage } from '../models/response-message'
+import { Messenger } from './messenger'
+
+/**
+ * Where a middleware runs: on messages sent by this service, on messages addressed to it, or on
+ * messages passing through it to another messenger.
+ */
+export type MiddlewareDirection = 'send' | 'receive' | 'forward'
+
+/**
+ * The state shared by the middleware handling a single message.
+ */
+export interface MiddlewareContext {
+  /**
+   * Where the middleware is running.
+   * @type {MiddlewareDirection}
+   */
+  readonly direction: MiddlewareDirection
+
+  /**
+   * The messenger of the service running the middleware.
+   * @type {Messenger}
+   */
+  readonly messenger: Messenger
+
+  /**
+   * The message being handled. Middleware can modify it or replace it with another message.
+   * @type {GeneralMessage<any>}
+   */
+  message: GeneralMessage<any>
+
+  /**
+   * The response to the message, if it is a request. For `send`, it is set once the response arrives;
+   * otherwise it is set by `respond()`.
+   * @type {ResponseMessage<any> | null | undefined}
+   */
+  response?: ResponseMessage<any> | null
+
+  /**
+   * Answers a request without passing it on. Call this instead of `next()` to short-circuit it:
+   * for `send`, `sendMessage()` resolves with the response; for `receive` and `forward`, the response
+   * is sent back to the requester.
+   * @param {any} data The data of the response.
+   * @throws {Error} If the message is not a request.
+   */
+  respond(data?: any): void
+}
+
+/**
+ * A Koa-style middleware registered with `MessagingService.use()`. It calls `next()` to pass the
+ * message on and can run code after the rest of the chain has finished; not calling `next()` drops
+ * the message. For requests, throwing (or rejecting) answers the requester with an `ErrorResponseMessage`.
+ */
+export type Middleware = (
+  context: MiddlewareContext,
+  next: () => Promise<void>
+) => void | Promise<void>
@@ -0,0 +1,24 @@
+/**
+ * The intermediate state of a long-running request, reported by its handler with `HandlerContext.progress()`.
+ *
+ * @template T The type of the arbitrary payload.
+ */
+export interface ProgressUpdate<T = any> {
+  /**
+   * How much of the work is done, from 0 to 100.
+   * @type {number | undefined}
+   */
+  percent?: number
+
+  /**
+   * The stage the work is in (e.g. `downloading` or `parsing`).
+   * @type {string | undefined}
+   */
+  stage?: string
+
+  /**
+   * Any other state to report, e.g. the number of records processed.
+   * @type {T | undefined}
+   */
+  data?: T
+}
@@ -0,0 +1,11 @@
+/**
+ * Options for reviving a message type registered with `registerMessageType()`.
+ */
+export interface RegisterMessageTypeOptions<T = any> {
+  /**
+   * Revives the message's data after structured cloning, e.g. to restore custom classes nested in it.
+   * It receives the plain data and returns the value to use as `message.data`.
+   * @type {((data: any) => T) | undefined}
+   */
+  reviveData?: (data: any) => T
+}
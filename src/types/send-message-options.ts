@@ -0,0 +1,47 @@
+import { MessageHeaders } from './message-headers'
+import { ProgressUpdate } from './progress-update'
+import { ProgressMessage } from '../models/progress-message'
+
+/**
+ * Options that control how `MessagingService.sendMessage()` delivers a message and waits for its response.
+ */
+export interface SendMessageOptions {
+  /**
+   * Optionally specify a specific worker to send the message to, bypassing routing.
+   * @type {any}
+   */
+  worker?: any
+
+  /**
+   * The number of milliseconds to wait for a response to a request before rejecting with a
+   * `RequestTimeoutError`. Overrides the service-wide `requestTimeoutMs` for this call.
+   * @type {number | undefined}
+   */
+  timeoutMs?: number
+
+  /**
+   * A signal that, when aborted, stops waiting for a response and rejects with a `RequestAbortedError`.
+   * @type {AbortSignal | undefined}
+   */
+  signal?: AbortSignal
+
+  /**
+   * Objects in the message (e.g. `ArrayBuffer`s or `MessagePort`s) to transfer rather than copy.
+   * Sets `message.transfer`. Messages sent to several destinations are copied instead.
+   * @type {Transferable[] | undefined}
+   */
+  transfer?: Transferable[]
+
+  /**
+   * Headers to add to `message.headers`, replacing any with the same names.
+   * @type {MessageHeaders | undefined}
+   */
+  headers?: MessageHeaders
+
+  /**
+   * Called with each progress update the handler of a request reports with `HandlerContext.progress()`,
+   * until the request settles. Does not change what the request resolves with.
+   * @type {((progress: ProgressUpdate, message: ProgressMessage) => void) | undefined}
+   */
+  onProgress?: (progress: ProgressUpdate, message: ProgressMessage) => void
+}
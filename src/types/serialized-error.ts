@@ -0,0 +1,9 @@
+/**
+ * A plain representation of an `Error` that survives structured cloning through `postMessage()`.
+ */
+export type SerializedError = {
+  name: string
+  message: string
+  stack?: string
+  code?: string | number
+}
@@ -0,0 +1,5 @@
+/**
+ * The address of a stream socket: a Unix domain socket path, or a TCP port with an optional host
+ * (default is `localhost`).
+ */
+export type SocketAddress = string | { host?: string; port: number }
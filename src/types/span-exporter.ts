@@ -0,0 +1,19 @@
+import { Span } from './span'
+
+/**
+ * Receives the spans recorded by a `MessagingService` (see `MessagingService.spanExporter`), e.g. to
+ * keep them in memory, write them to a file or send them to a tracing backend.
+ */
+export interface SpanExporter {
+  /**
+   * Exports finished spans. Errors thrown or rejected are logged and otherwise ignored.
+   * @param {Span[]} spans The spans to export.
+   */
+  export(spans: Span[]): void | Promise<void>
+
+  /**
+   * Flushes any pending spans and releases the exporter's resources.
+   * Optional: exporters without pending work do not implement it.
+   */
+  shutdown?(): Promise<void>
+}
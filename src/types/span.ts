@@ -0,0 +1,68 @@
+import { SerializedError } from './serialized-error'
+
+/**
+ * What a span measures: sending a message from its origin, forwarding it through an intermediate
+ * messenger, or handling it at its destination.
+ */
+export type SpanKind = 'send' | 'forward' | 'handle'
+
+/**
+ * A finished span of a message's trace, recorded by a `MessagingService` and passed to its `SpanExporter`.
+ */
+export type Span = {
+  /**
+   * The trace the span belongs to, as 32 lowercase hex characters.
+   * @type {string}
+   */
+  traceId: string
+
+  /**
+   * The id of the span, as 16 lowercase hex characters.
+   * @type {string}
+   */
+  spanId: string
+
+  /**
+   * The id of the span that caused this one (e.g. the previous hop), if any.
+   * @type {string | undefined}
+   */
+  parentSpanId?: string
+
+  /**
+   * What the span measures.
+   * @type {SpanKind}
+   */
+  kind: SpanKind
+
+  /**
+   * The name of the message.
+   * @type {string}
+   */
+  name: string
+
+  /**
+   * The messenger that recorded the span.
+   * @type {string}
+   */
+  messenger: string
+
+  /**
+   * The id, type, source and destination of the message.
+   */
+  messageId: string
+  messageType: string
+  source: string
+  destination: string
+
+  /**
+   * When the span started and ended, in milliseconds since the epoch.
+   */
+  startTime: number
+  endTime: number
+
+  /**
+   * The error the span failed with (e.g. a handler throwing or a request timing out), if any.
+   * @type {SerializedError | undefined}
+   */
+  error?: SerializedError
+}
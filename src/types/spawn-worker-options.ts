@@ -0,0 +1,20 @@
+import { RestartPolicy } from './add-worker-options'
+
+/**
+ * Options for creating a worker with `MessagingService.spawnWorker()`.
+ */
+export interface SpawnWorkerOptions {
+  /**
+   * Additional options passed to the `Worker` constructor (e.g. `type`, `env` or `resourceLimits`).
+   * The messenger path is always injected as `workerData.name` or `name`.
+   * @type {Record<string, any> | undefined}
+   */
+  workerOptions?: Record<string, any>
+
+  /**
+   * Restarts the worker from the same script when it crashes, using this policy.
+   * Without a restart policy, crashed workers are removed and not restarted.
+   * @type {RestartPolicy | undefined}
+   */
+  restartPolicy?: RestartPolicy
+}
@@ -0,0 +1,34 @@
+import { Messenger } from './messenger'
+import type { WebWorkerEndpoint } from '../transports/web-worker-transport'
+import type { WorkerThreadsEndpoint } from '../transports/worker-threads-transport'
+
+/**
+ * A handle to a worker created with `MessagingService.spawnWorker()`.
+ */
+export interface SpawnedWorker {
+  /**
+   * The full messenger path of the worker (e.g. `/parent/name`).
+   * @type {Messenger}
+   */
+  readonly messenger: Messenger
+
+  /**
+   * The current worker instance: a worker_threads `Worker` in Node.js or a Web `Worker` in browsers.
+   * It changes when a supervised worker is restarted.
+   * @type {WorkerThreadsEndpoint | WebWorkerEndpoint}
+   */
+  readonly worker: WorkerThreadsEndpoint | WebWorkerEndpoint
+
+  /**
+   * Resolves once the worker's MessagingService announces that it is ready to receive messages.
+   * Rejects with a `WorkerCrashedError` if the worker crashes or exits first.
+   * @type {Promise<void>}
+   */
+  readonly ready: Promise<void>
+
+  /**
+   * Removes the worker from the service and terminates it.
+   * @returns {Promise<void>} A promise that resolves once the worker has been terminated.
+   */
+  terminate(): Promise<void>
+}
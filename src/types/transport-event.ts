@@ -0,0 +1,18 @@
+/**
+ * A lifecycle event reported by a `Transport`.
+ * - `error`: the other end threw an uncaught error.
+ * - `exit`: the other end exited or disconnected.
+ * - `messageerror`: a message could not be deserialized; the channel remains usable.
+ *
+ * Transports that spread messages over several workers (e.g. a `WorkerPool`) report the crash of one
+ * of them with the `requestIds` it was handling; the transport itself remains usable. `replace` is
+ * `false` if the worker was already being removed (e.g. by `WorkerPool.resize()`), so it should not
+ * be replaced.
+ */
+export type TransportEvent = {
+  type: 'error' | 'exit' | 'messageerror'
+  error?: Error
+  exitCode?: number
+  requestIds?: any[]
+  replace?: boolean
+}
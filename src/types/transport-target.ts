@@ -0,0 +1,10 @@
+import { Transport } from './transport'
+import type { ChildProcessEndpoint } from '../transports/child-process-transport'
+import type { WebWorkerEndpoint } from '../transports/web-worker-transport'
+import type { WorkerThreadsEndpoint } from '../transports/worker-threads-transport'
+
+/**
+ * A Transport, or a worker, port, scope or child process that `toTransport()` wraps in one.
+ */
+export type TransportTarget =
+  Transport | WorkerThreadsEndpoint | WebWorkerEndpoint | MessagePort | ChildProcessEndpoint
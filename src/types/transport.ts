@@ -0,0 +1,42 @@
+import { GeneralMessage } from '../models/general-message'
+import { TransportEvent } from './transport-event'
+
+/**
+ * A bidirectional channel between two messengers in the messaging tree.
+ * `MessagingService` only talks to its workers and its upstream through this interface, so any
+ * channel (worker_threads, Web Workers, message ports, sockets, ...) can be plugged in by implementing it.
+ */
+export interface Transport {
+  /**
+   * Sends a message to the other end of the channel.
+   * @param {GeneralMessage<any>} message The message to send.
+   */
+  send(message: GeneralMessage<any>): void
+
+  /**
+   * Registers a listener for messages arriving from the other end of the channel.
+   * @param {(message: GeneralMessage<any>) => void} listener The function called with each received message.
+   * @returns {() => void} A function that removes the listener.
+   */
+  onMessage(listener: (message: GeneralMessage<any>) => void): () => void
+
+  /**
+   * Registers a listener for lifecycle events of the other end (e.g. a worker crashing or exiting).
+   * Optional: transports that cannot detect these events do not implement it.
+   * @param {(event: TransportEvent) => void} listener The function called with each lifecycle event.
+   * @returns {() => void} A function that removes the listener.
+   */
+  onEvent?(listener: (event: TransportEvent) => void): () => void
+
+  /**
+   * The number of messages waiting to be delivered or processed by the other end (e.g. buffered until
+   * it is ready or while reconnecting). Optional: transports that do not queue messages do not implement it.
+   * @type {number | undefined}
+   */
+  readonly queueLength?: number
+
+  /**
+   * Closes the channel, removing all listeners and releasing the underlying resources.
+   */
+  close(): void
+}
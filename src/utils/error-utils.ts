@@ -0,0 +1,30 @@
+import { SerializedError } from '../types/serialized-error'
+
+/**
+ * Convert an error (or any thrown value) into a plain object that can be sent with `postMessage()`.
+ * Error prototypes are lost during structured cloning, so the name, message, stack and code
+ * are copied into own properties.
+ * @param error The thrown value
+ * @returns A serializable representation of the error
+ */
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof Error) {
+    const serialized: SerializedError = {
+      name: error.name,
+      message: error.message,
+      stack: error.stack,
+    }
+
+    const code = (error as { code?: unknown }).code
+    if (typeof code === 'string' || typeof code === 'number') {
+      serialized.code = code
+    }
+
+    return serialized
+  }
+
+  return {
+    name: 'Error',
+    message: typeof error === 'string' ? error : String(error),
+  }
+}
@@ -4,8 +4,13 @@ export {
   normalizeMessenger,
   messengersAreEqual,
   messengerIsUpstream,
+  messengerIsWithin,
 } from './messenger-utils'
 
+export { serializeError } from './error-utils'
+
+export { registerMessageType, unregisterMessageType, reviveMessage } from './message-registry'
+
 export { generateUUID } from './uuid-utils'
 
 export { isWorkerThreads } from './worker-threads'
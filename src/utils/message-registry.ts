@@ -0,0 +1,107 @@
+import { GeneralMessage } from '../models/general-message'
+import { RequestMessage } from '../models/request-message'
+import { ResponseMessage } from '../models/response-message'
+import { ErrorResponseMessage } from '../models/error-response-message'
+import { ReadyMessage } from '../models/ready-message'
+import { SharedChannelMessage } from '../models/shared-channel-message'
+import { StreamChunkMessage } from '../models/stream-chunk-message'
+import { StreamEndMessage } from '../models/stream-end-message'
+import { CancelMessage } from '../models/cancel-message'
+import { ProgressMessage } from '../models/progress-message'
+import { MessageType } from '../types/message-type'
+import { MessageClass } from '../types/message-class'
+import { RegisterMessageTypeOptions } from '../types/register-message-type-options'
+
+/**
+ * A registered message class and how to revive the data of its messages.
+ */
+type MessageTypeEntry = {
+  messageClass: MessageClass
+  reviveData?: (data: any) => any
+}
+
+/**
+ * The classes that messages of each type are revived into when no class is registered for their name,
+ * from the most to the least specific.
+ */
+const BUILT_IN_MESSAGE_CLASSES: [MessageType, MessageClass][] = [
+  [MessageType.ERROR, ErrorResponseMessage],
+  [MessageType.STREAM_CHUNK, StreamChunkMessage],
+  [MessageType.STREAM_END, StreamEndMessage],
+  [MessageType.PROGRESS, ProgressMessage],
+  [MessageType.RESPONSE, ResponseMessage],
+  [MessageType.REQUEST, RequestMessage],
+  [MessageType.READY, ReadyMessage],
+  [MessageType.SHARED_CHANNEL, SharedChannelMessage],
+  [MessageType.CANCEL, CancelMessage],
+  [MessageType.GENERAL, GeneralMessage],
+]
+
+const registry: Map<string, Map<MessageType, MessageTypeEntry>> = new Map()
+
+/**
+ * Get the message type sent by a message class, based on the built-in class it extends.
+ * @param messageClass The message class
+ * @returns The message type of the class
+ */
+function getMessageType(messageClass: MessageClass): MessageType {
+  const [type] = BUILT_IN_MESSAGE_CLASSES.find(
+    ([, builtInClass]) =>
+      messageClass === builtInClass || messageClass.prototype instanceof builtInClass
+  )!
+
+  return type
+}
+
+/**
+ * Register a message class so that received messages with the given name are revived into it.
+ * Structured cloning through `postMessage()` strips prototypes; registered messages get their
+ * prototype back, so `instanceof` checks and methods work on the receiving side.
+ * A name can be registered once per message type, e.g. a request class and a response class.
+ * @param name The name of the messages (see `GeneralMessage.name`)
+ * @param messageClass The `GeneralMessage` subclass to revive the messages into
+ * @param options Optionally how to revive the data of the messages
+ */
+export function registerMessageType<T>(
+  name: string,
+  messageClass: MessageClass<T>,
+  options: RegisterMessageTypeOptions<T> = {}
+): void {
+  const entries = registry.get(name) ?? new Map()
+  entries.set(getMessageType(messageClass), { messageClass, reviveData: options.reviveData })
+  registry.set(name, entries)
+}
+
+/**
+ * Remove all message classes registered for the given name.
+ * @param name The name of the messages
+ */
+export function unregisterMessageType(name: string): void {
+  registry.delete(name)
+}
+
+/**
+ * Revive a received message into its registered class, or into the built-in class for its type
+ * if none is registered. The message is updated in place.
+ * @param message The received message
+ * @returns The revived message
+ */
+export function reviveMessage<T>(message: GeneralMessage<T>): GeneralMessage<T> {
+  if (!message || typeof message !== 'object') {
+    return message
+  }
+
+  const entry = registry.get(message.name)?.get(message.type)
+  const messageClass =
+    entry?.messageClass ?? BUILT_IN_MESSAGE_CLASSES.find(([type]) => type === message.type)?.[1]
+
+  if (messageClass && !(message instanceof messageClass)) {
+    Object.setPrototypeOf(message, messageClass.prototype)
+  }
+
+  if (entry?.reviveData && message.data !== undefined) {
+    message.data = entry.reviveData(message.data)
+  }
+
+  return message
+}
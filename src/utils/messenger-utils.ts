@@ -1,4 +1,8 @@
 import { Messenger } from '../types/messenger'
+import { Logger } from '../types/logger'
+import { SilentLogger } from '../logging/silent-logger'
+
+const silentLogger = new SilentLogger()
 
 /**
  * Convert a Messenger object into an array of strings.
@@ -97,6 +101,21 @@ export function messengersAreEqual(messenger1: Messenger, messenger2: Messenger)
   return messengerAsString(messenger1) === messengerAsString(messenger2)
 }
 
+/**
+ * Determines if a Messenger is within the subtree rooted at another Messenger, i.e. if it is the
+ * root itself or one of its descendants. Every Messenger is within the subtree of the root `/`.
+ *
+ * @param {Messenger} messenger The Messenger to check.
+ * @param {Messenger} root The root of the subtree.
+ * @returns {boolean} Returns `true` if `messenger` is `root` or a descendant of it, otherwise returns `false`.
+ */
+export function messengerIsWithin(messenger: Messenger, root: Messenger): boolean {
+  const path = messengerAsArray(messenger)
+  const rootPath = messengerAsArray(root)
+
+  return rootPath.length <= path.length && rootPath.every((name, i) => name === path[i])
+}
+
 /**
  * Determines if one Messenger (`there`) is upstream from another (`here`), based on their relative levels
  * in a hierarchical messenger structure.
@@ -111,39 +130,41 @@ export function messengersAreEqual(messenger1: Messenger, messenger2: Messenger)
  *
  * @param {Messenger} here The first Messenger to compare (the one that is the starting point).
  * @param {Messenger} there The second Messenger to compare (the one being checked to see if it is upstream or downstream).
+ * @param {Logger} [logger] Where to log how the messengers were compared, at `debug` level. Default is silent.
  * @returns {boolean} Returns `true` if `there` is upstream from `here`, otherwise returns `false`.
  */
-export function messengerIsUpstream(here: Messenger, there: Messenger): boolean {
+export function messengerIsUpstream(
+  here: Messenger,
+  there: Messenger,
+  logger: Logger = silentLogger
+): boolean {
   const from = messengerAsArray(here)
   const fromLevel = from.length
 
   const to = messengerAsArray(there)
   const toLevel = to.length
 
-  console.log(`SERVICE[messengerIsUpstream] from: "${from}" ?? to: "${to}"`)
-  console.log(`SERVICE[messengerIsUpstream] fromLevel: "${fromLevel}" ?? toLevel: "${toLevel}"`)
-
   if (fromLevel === 0) {
-    console.log(`SERVICE[messengerIsUpstream] DOWNSTREAM: "${from}" -> "${to}"`)
+    logger.debug('Messenger is downstream from the root.', { from, to })
     return false
   }
   if (toLevel < fromLevel) {
-    console.log(`SERVICE[messengerIsUpstream] UPSTREAM: "${toLevel}" < "${fromLevel}"`)
+    logger.debug('Messenger is upstream at a higher level.', { from, to })
     return true
   }
 
   for (let i = 0; i < fromLevel; i++) {
     if (from[i] !== to[i]) {
-      console.log(`SERVICE[messengerIsUpstream] UPSTREAM: "${from[i]}" !== "${to[i]}"`)
+      logger.debug('Messenger is upstream on another branch.', { from, to, level: i })
       return true
     }
   }
 
   if (fromLevel === toLevel) {
-    console.log(`SERVICE[messengerIsUpstream] EQUAL: "${from}" === "${to}"`)
+    logger.debug('Messengers are equal.', { from, to })
     return false
   }
 
-  console.log(`SERVICE[messengerIsUpstream] DOWNSTREAM: "${from}" -> "${to}"`)
+  logger.debug('Messenger is downstream.', { from, to })
   return false
 }
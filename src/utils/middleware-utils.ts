@@ -0,0 +1,30 @@
+import { Middleware, MiddlewareContext } from '../types/middleware'
+
+/**
+ * Compose middleware into a single function that runs them in order, Koa-style: each middleware
+ * runs the rest of the chain by calling `next()`, and the final function runs after the last one.
+ * @param middleware The middleware to run, in order
+ * @returns A function that runs the middleware and the final function for a context
+ */
+export function composeMiddleware(
+  middleware: Middleware[]
+): (context: MiddlewareContext, final: () => void | Promise<void>) => Promise<void> {
+  return (context, final) => {
+    let lastIndex = -1
+
+    const dispatch = async (index: number): Promise<void> => {
+      if (index <= lastIndex) {
+        throw new Error('next() called multiple times')
+      }
+      lastIndex = index
+
+      if (index === middleware.length) {
+        return final()
+      }
+
+      return middleware[index](context, () => dispatch(index + 1))
+    }
+
+    return dispatch(0)
+  }
+}
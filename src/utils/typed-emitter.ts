@@ -0,0 +1,67 @@
+import { Logger } from '../types/logger'
+import { SilentLogger } from '../logging/silent-logger'
+
+/**
+ * A minimal event emitter whose event names and payloads are checked against an events map.
+ *
+ * @template Events A map of event names to the type of payload emitted with them.
+ */
+export class TypedEmitter<Events extends Record<string, any>> {
+  private listeners: Map<keyof Events, Set<(event: any) => void>> = new Map()
+  private logger: Logger
+
+  /**
+   * Creates an instance of the TypedEmitter.
+   * @param {Logger} [logger] Where to log listeners that throw. Default is silent.
+   */
+  constructor(logger: Logger = new SilentLogger()) {
+    this.logger = logger
+  }
+
+  /**
+   * Registers a listener for an event.
+   * @param {K} type The name of the event.
+   * @param {(event: Events[K]) => void} listener The function called with each emitted payload.
+   * @returns {() => void} A function that removes the listener.
+   */
+  public on<K extends keyof Events>(type: K, listener: (event: Events[K]) => void): () => void {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set())
+    }
+    this.listeners.get(type)!.add(listener)
+
+    return () => this.off(type, listener)
+  }
+
+  /**
+   * Removes a listener for an event.
+   * @param {K} type The name of the event.
+   * @param {(event: Events[K]) => void} listener The listener to remove.
+   */
+  public off<K extends keyof Events>(type: K, listener: (event: Events[K]) => void): void {
+    this.listeners.get(type)?.delete(listener)
+  }
+
+  /**
+   * Calls every listener registered for an event with the given payload.
+   * A listener that throws does not prevent the remaining listeners from being called.
+   * @param {K} type The name of the event.
+   * @param {Events[K]} event The payload to pass to the listeners.
+   */
+  public emit<K extends keyof Events>(type: K, event: Events[K]): void {
+    this.listeners.get(type)?.forEach((listener) => {
+      try {
+        listener(event)
+      } catch (err) {
+        this.logger.error('Event listener failed.', { event: String(type), error: err })
+      }
+    })
+  }
+
+  /**
+   * Removes every listener for every event.
+   */
+  public clear(): void {
+    this.listeners.clear()
+  }
+}